@@ -0,0 +1,135 @@
+/**
+ * Analysis Engine Benchmark
+ *
+ * Renders a synthetic 12-megapixel (4000 x 3000) bar chart, then runs the
+ * typed-array engine and the legacy Set<string> engine on the same input.
+ * Reports timings and fails (exit code 1) unless both produce byte-identical
+ * JSON output, or if the integral-image live stats disagree with the full analysis.
+ *
+ * Usage: npm run bench
+ */
+
+import { analyzeImage, computeInkMap } from "../src/utils/analysis";
+import { floodFill } from "../src/utils/floodFill";
+import { buildInkIntegral, estimateLayerStats } from "../src/utils/integralImage";
+import { SelectionBox } from "../src/types";
+import { analyzeImage as legacyAnalyzeImage } from "./legacy/analysis";
+import { floodFill as legacyFloodFill } from "./legacy/floodFill";
+
+const WIDTH = 4000;
+const HEIGHT = 3000;
+
+type RGBA = [number, number, number, number];
+
+/**
+ * Builds a deterministic bar chart: white background, light gridlines,
+ * dark axes, blue bars and sparse grey noise (antialiasing / text speckle).
+ */
+function createChartFixture(): ImageData {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  const fillRect = (x: number, y: number, w: number, h: number, [r, g, b, a]: RGBA) => {
+    for (let py = y; py < y + h; py++) {
+      for (let px = x; px < x + w; px++) {
+        const idx = (py * WIDTH + px) * 4;
+        data[idx] = r; data[idx + 1] = g; data[idx + 2] = b; data[idx + 3] = a;
+      }
+    }
+  };
+
+  fillRect(0, 0, WIDTH, HEIGHT, [255, 255, 255, 255]);
+  for (let y = 200; y < 2800; y += 150) fillRect(300, y, 3500, 2, [200, 200, 200, 255]); // Gridlines
+  fillRect(300, 200, 4, 2600, [30, 30, 30, 255]); // Y-axis
+  fillRect(300, 2796, 3500, 4, [30, 30, 30, 255]); // X-axis
+  for (let i = 0; i < 10; i++) {
+    const barHeight = 400 + ((i * 677) % 2000);
+    fillRect(400 + i * 340, 2796 - barHeight, 220, barHeight, [59, 130, 246, 255]); // Bars
+  }
+
+  // Deterministic speckle (linear congruential generator)
+  let seed = 42;
+  for (let n = 0; n < 200000; n++) {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    const pixel = seed % (WIDTH * HEIGHT);
+    const idx = pixel * 4;
+    data[idx] = data[idx + 1] = data[idx + 2] = 120;
+  }
+
+  return { width: WIDTH, height: HEIGHT, data, colorSpace: "srgb" } as ImageData;
+}
+
+function createSelections(imageData: ImageData): SelectionBox[] {
+  const base = { countFullArea: false, color: "#3b82f6" };
+  const bar = floodFill(imageData, 500, 2700, 30)!;
+  return [
+    { ...base, id: "plot", label: "Gridlines", isData: false, x: 300, y: 200, width: 2000, height: 1500, color: "#94a3b8" },
+    { ...base, id: "axis", label: "X-Axis", isData: false, x: 250, y: 2780, width: 2000, height: 40, color: "#64748b" },
+    { ...base, id: "bars", label: "Bars", isData: true, x: 1000, y: 1200, width: 1000, height: 1600 },
+    {
+      ...base, id: "trend", label: "Trend", isData: true, shape: "polygon", x: 500, y: 300, width: 1500, height: 1000,
+      points: [{ x: 500, y: 1300 }, { x: 2000, y: 300 }, { x: 2000, y: 450 }, { x: 600, y: 1300 }],
+    },
+    {
+      ...base, id: "wand", label: "Wand Bar", isData: true, shape: "mask",
+      x: bar.minX, y: bar.minY, width: bar.maxX - bar.minX + 1, height: bar.maxY - bar.minY + 1, mask: bar.mask,
+    },
+  ];
+}
+
+function time<T>(fn: () => T): { value: T; ms: number } {
+  const start = performance.now();
+  const value = fn();
+  return { value, ms: performance.now() - start };
+}
+
+const imageData = createChartFixture();
+const selections = createSelections(imageData);
+const background = { r: 255, g: 255, b: 255 };
+let failed = false;
+
+console.log(`Fixture: ${WIDTH} x ${HEIGHT} (${((WIDTH * HEIGHT) / 1e6).toFixed(1)} MP), ${selections.length} selections\n`);
+
+const legacyAnalysis = time(() => legacyAnalyzeImage(imageData, selections, background, 30));
+const analysis = time(() => analyzeImage(imageData, selections, background, 30));
+// The legacy engine predates unclassified-ink tracking, so compare everything else
+const { unclassified, ...layered } = analysis.value;
+const analysisMatches = JSON.stringify(layered) === JSON.stringify(legacyAnalysis.value);
+failed ||= !analysisMatches;
+console.log("analyzeImage");
+console.log(`  legacy (Set<string>): ${legacyAnalysis.ms.toFixed(0)} ms`);
+console.log(`  typed arrays:         ${analysis.ms.toFixed(0)} ms (${(legacyAnalysis.ms / analysis.ms).toFixed(1)}x faster)`);
+console.log(`  identical output:     ${analysisMatches ? "yes" : "NO"}`);
+
+// Every ink pixel is either owned by a layer or unclassified (the fixture has no full-area layers)
+const unclassifiedMatches = unclassified.inkPixels ===
+  analysis.value.totalInkPixels - analysis.value.layers.reduce((sum, layer) => sum + layer.inkPixels, 0);
+failed ||= !unclassifiedMatches;
+console.log(`  unclassified ink:     ${unclassified.inkPixels.toLocaleString()} px in ${unclassified.clusterCount.toLocaleString()} clusters (${unclassifiedMatches ? "consistent" : "INCONSISTENT"})\n`);
+
+// Integral image: one-off build cost, then per-update live stats for all layers
+const integral = time(() => {
+  const { inkMap, totalInkPixels } = computeInkMap(imageData, background, 30);
+  return buildInkIntegral(inkMap, WIDTH, HEIGHT, totalInkPixels);
+});
+const live = time(() => estimateLayerStats(integral.value, selections));
+// Later updates while dragging reuse the rasterised polygon/mask layers
+const warmLive = time(() => estimateLayerStats(integral.value, selections));
+const liveMatches = live.value.layers.every((layer, i) =>
+  layer.inkPixels === analysis.value.layers[i].inkPixels && layer.totalPixels === analysis.value.layers[i].totalPixels
+) && live.value.efficiencyRatio === analysis.value.efficiencyRatio;
+failed ||= !liveMatches;
+console.log("estimateLayerStats (summed-area table)");
+console.log(`  build integral:       ${integral.ms.toFixed(0)} ms (once per image/background/threshold)`);
+console.log(`  live update:          ${live.ms.toFixed(1)} ms first, ${warmLive.ms.toFixed(1)} ms after`);
+console.log(`  matches analyzeImage: ${liveMatches ? "yes" : "NO"}\n`);
+
+// Flood fill the large white background region, the worst case for the magic wand
+const legacyFill = time(() => legacyFloodFill(imageData, 3900, 100, 30));
+const fill = time(() => floodFill(imageData, 3900, 100, 30));
+const fillMatches = JSON.stringify(fill.value) === JSON.stringify(legacyFill.value);
+failed ||= !fillMatches;
+console.log("floodFill");
+console.log(`  legacy (Set<string>): ${legacyFill.ms.toFixed(0)} ms`);
+console.log(`  typed arrays:         ${fill.ms.toFixed(0)} ms (${(legacyFill.ms / fill.ms).toFixed(1)}x faster)`);
+console.log(`  identical output:     ${fillMatches ? "yes" : "NO"}`);
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,150 @@
+/**
+ * Headless Analysis CLI
+ *
+ * Runs the layered analysis on a PNG/JPEG with the selections and settings of an
+ * exported session file (the JSON written by "Export" in the toolbar), so chart
+ * changes can be gated in CI without the browser UI.
+ *
+ * The result is printed (or written with --output) as JSON or CSV, and the process
+ * exits with code 1 when the efficiency ratio falls below --min-efficiency, or,
+ * without that flag, below the session profile's `benchmarks.efficiency.good`.
+ *
+ * Usage: npm run analyze -- <image.png|jpg> <session.json> [options]
+ *
+ * Exit codes: 0 = passed (or no threshold), 1 = below threshold, 2 = usage or input error.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { PNG } from "pngjs";
+import jpeg from "jpeg-js";
+import { analyzeImage, chartProfiles, exportToCSV, exportToJSON } from "../src/analysis";
+import type { ChartProfile, PixelBuffer } from "../src/analysis";
+import { parseSession } from "../src/utils/session";
+import type { SessionData } from "../src/types/app";
+
+const USAGE = `Usage: npm run analyze -- <image.png|jpg> <session.json> [options]
+
+Options:
+  -f, --format <json|csv>      Output format (default: json)
+  -o, --output <file>          Write the result to a file instead of stdout
+  -m, --min-efficiency <ratio> Fail below this efficiency (0-1, or a percentage like 60%)
+      --no-gate                Never fail on efficiency, even with a profile
+  -q, --quiet                  Do not print the summary line to stderr
+  -h, --help                   Show this help`;
+
+const EXIT_BELOW_THRESHOLD = 1;
+const EXIT_USAGE = 2;
+
+class UsageError extends Error {}
+
+/**
+ * Decodes a PNG or JPEG (detected from its signature) into RGBA pixels.
+ */
+function decodeImage(path: string): PixelBuffer {
+  const bytes = readFileSync(path);
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    const png = PNG.sync.read(bytes);
+    return { width: png.width, height: png.height, data: png.data };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    const decoded = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+    return { width: decoded.width, height: decoded.height, data: decoded.data };
+  }
+  throw new UsageError(`${path} is not a PNG or JPEG image.`);
+}
+
+/**
+ * Reads a session file of any exported version (migrated and validated like an import in the app).
+ */
+function readSession(path: string): SessionData {
+  let session: SessionData;
+  try {
+    session = parseSession(JSON.parse(readFileSync(path, "utf8")));
+  } catch (error) {
+    throw new UsageError(`Could not read session ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (session.selections.length === 0) throw new UsageError(`${path} has no selections to analyze.`);
+  return session;
+}
+
+/**
+ * Parses "0.6", "60%" or "60" (values above 1 are read as percentages).
+ */
+function parseRatio(value: string): number {
+  const isPercent = value.endsWith("%");
+  const number = Number(isPercent ? value.slice(0, -1) : value);
+  if (!Number.isFinite(number) || number < 0) throw new UsageError(`Invalid efficiency threshold: ${value}`);
+  return isPercent || number > 1 ? number / 100 : number;
+}
+
+function main(): number {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: "string", short: "f", default: "json" },
+      output: { type: "string", short: "o" },
+      "min-efficiency": { type: "string", short: "m" },
+      "no-gate": { type: "boolean", default: false },
+      quiet: { type: "boolean", short: "q", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 2) throw new UsageError("Expected an image and a session file.");
+  if (values.format !== "json" && values.format !== "csv") throw new UsageError(`Unknown format: ${values.format}`);
+
+  const [imagePath, sessionPath] = positionals;
+  const imageData = decodeImage(imagePath);
+  const session = readSession(sessionPath);
+  const log = (message: string) => { if (!values.quiet) console.error(message); };
+
+  const { imageDimensions } = session;
+  if (imageDimensions?.width && (imageDimensions.width !== imageData.width || imageDimensions.height !== imageData.height)) {
+    log(`Warning: session was drawn on a ${imageDimensions.width}x${imageDimensions.height} image, ${imagePath} is ${imageData.width}x${imageData.height}.`);
+  }
+
+  const result = analyzeImage(imageData, session.selections, {
+    backgroundColor: session.backgroundColor,
+    inkThreshold: session.inkThreshold,
+    colorMetric: session.colorMetric,
+    backgroundMode: session.backgroundMode,
+    fractionalCoverage: session.fractionalCoverage,
+    canvasMode: session.canvasMode,
+  });
+
+  const content = values.format === "json" ? exportToJSON(result) : exportToCSV(result);
+  if (values.output) writeFileSync(values.output, content + "\n");
+  else process.stdout.write(content + "\n");
+
+  // Threshold: explicit flag, else the profile's "good" efficiency benchmark
+  const profile: ChartProfile | undefined = chartProfiles.find(p => p.id === session.selectedProfileId);
+  const threshold = values["no-gate"]
+    ? null
+    : values["min-efficiency"] !== undefined
+      ? { ratio: parseRatio(values["min-efficiency"]), source: "--min-efficiency" }
+      : profile
+        ? { ratio: profile.benchmarks.efficiency.good, source: `${profile.name} profile (good)` }
+        : null;
+
+  const efficiency = `${(result.efficiencyRatio * 100).toFixed(2)}%`;
+  if (!threshold) {
+    log(`Efficiency ${efficiency} (no threshold)`);
+    return 0;
+  }
+  const passed = result.efficiencyRatio >= threshold.ratio;
+  log(`Efficiency ${efficiency}, threshold ${(threshold.ratio * 100).toFixed(2)}% from ${threshold.source}: ${passed ? "PASS" : "FAIL"}`);
+  return passed ? 0 : EXIT_BELOW_THRESHOLD;
+}
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : error}`);
+  if (error instanceof UsageError || (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")) console.error(`\n${USAGE}`);
+  process.exitCode = EXIT_USAGE;
+}
@@ -0,0 +1,137 @@
+/**
+ * Data-Ink Analysis Library
+ *
+ * The framework-free public API of the analysis engine. It takes plain RGBA
+ * buffers ({ width, height, data }), so it runs in browsers, workers and Node
+ * alike; the app itself (worker, panels) and the CLI consume this entry point.
+ *
+ * Options are passed as objects so new settings can be added without breaking
+ * callers. Everything not exported here is internal and may change.
+ *
+ * Build: `npm run build:lib` writes ESM and type declarations to library/dist.
+ */
+
+import { analyzeImage as analyzeLayers } from "../utils/analysis";
+import { floodFill as fillRegion, FloodFillRegion } from "../utils/floodFill";
+import { colorMetricScales } from "../utils/color";
+import { AnalysisResult, BackgroundMode, CanvasMode, ColorMetric, PixelBuffer, SelectionBox } from "../types";
+
+type RGB = { r: number; g: number; b: number };
+
+export interface AnalyzeOptions {
+  /** Default: the canvas mode's background (white on light canvases) */
+  backgroundColor?: RGB;
+  /** Minimum distance from the background to count as ink, in the colour model's unit (default: the model's, 30 for "rgb") */
+  inkThreshold?: number;
+  /** Colour-difference model (default "rgb") */
+  colorMetric?: ColorMetric;
+  /** How the background varies across the image (default "uniform") */
+  backgroundMode?: BackgroundMode;
+  /** Also report anti-aliasing-aware coverage (default false) */
+  fractionalCoverage?: boolean;
+  /** Light or dark canvas (default "light") */
+  canvasMode?: CanvasMode;
+  /**
+   * Owners from SVG paint order (selection index + 1 per pixel, 0 = none); layers with
+   * `svgElements` own exactly their pixels in it. Default null (box rules only)
+   */
+  paintOwnership?: Int32Array | null;
+  /** Completed fraction (0-1), reported per scanned row */
+  onProgress?: (fraction: number) => void;
+}
+
+export interface FloodFillOptions {
+  /** Maximum colour distance from the seed pixel, in the colour model's unit (default: the model's, 30 for "rgb") */
+  tolerance?: number;
+  /** Colour-difference model (default "rgb") */
+  colorMetric?: ColorMetric;
+  /** Composite translucent pixels over this colour (dark canvases); default null */
+  backdrop?: RGB | null;
+  /** Smaller regions return null (default 10) */
+  minRegionSize?: number;
+}
+
+// RGB defaults; other colour models use colorMetricScales[metric].defaultThreshold
+export const DEFAULT_INK_THRESHOLD = colorMetricScales.rgb.defaultThreshold;
+export const DEFAULT_FLOOD_FILL_TOLERANCE = colorMetricScales.rgb.defaultThreshold;
+
+/**
+ * Layered data-ink analysis: each selection is a layer, the topmost layer owns
+ * overlapping pixels, and ink outside every layer is reported as unclassified.
+ */
+export function analyzeImage(
+  image: PixelBuffer,
+  selections: SelectionBox[],
+  options: AnalyzeOptions = {}
+): AnalysisResult {
+  const colorMetric = options.colorMetric ?? "rgb";
+  return analyzeLayers(
+    image,
+    selections,
+    options.backgroundColor,
+    options.inkThreshold ?? colorMetricScales[colorMetric].defaultThreshold,
+    colorMetric,
+    options.backgroundMode ?? "uniform",
+    options.fractionalCoverage ?? false,
+    options.canvasMode ?? "light",
+    options.onProgress,
+    options.paintOwnership ?? null
+  );
+}
+
+/**
+ * Magic-wand region growing from (startX, startY). The region's `mask` can be
+ * used directly as a mask selection anchored at (minX, minY).
+ */
+export function floodFill(
+  image: PixelBuffer,
+  startX: number,
+  startY: number,
+  options: FloodFillOptions = {}
+): FloodFillRegion | null {
+  const colorMetric = options.colorMetric ?? "rgb";
+  return fillRegion(
+    image,
+    startX,
+    startY,
+    options.tolerance ?? colorMetricScales[colorMetric].defaultThreshold,
+    colorMetric,
+    options.backdrop ?? null,
+    options.minRegionSize
+  );
+}
+
+export type { FloodFillRegion };
+export { exportToJSON, exportToCSV } from "../utils/analysis";
+export { generateHtmlReport, generateMarkdownReport } from "../utils/report";
+export type { ReportInput } from "../utils/report";
+export { detectBackgroundColor } from "../utils/backgroundDetection";
+export type { BackgroundEstimate } from "../utils/backgroundDetection";
+export { canvasModeBackgrounds } from "../utils/canvasMode";
+export { colorMetricScales, convertThreshold } from "../utils/color";
+export type { ColorMetricScale } from "../utils/color";
+export { encodeMask, decodeMask } from "../utils/mask";
+export { generateSuggestions } from "../utils/assistant";
+export { compareToReference, createCustomReference } from "../utils/comparison";
+export { getReferencesForChartType, getReferenceById, getReferenceByType, getAvailableChartTypes } from "../utils/references";
+export { chartProfiles } from "../utils/benchmarks";
+
+export type {
+  PixelBuffer,
+  Point,
+  SelectionShape,
+  SelectionMask,
+  SelectionBox,
+  LayerResult,
+  InkCluster,
+  UnclassifiedInk,
+  InkCoverageTotals,
+  AnalysisResult,
+  ColorMetric,
+  BackgroundMode,
+  CanvasMode,
+  ChartProfile,
+  ComponentDefinition,
+  Suggestion,
+} from "../types";
+export type { ReferenceType, ReferenceVisualization, ComparisonResult } from "../types/comparison";
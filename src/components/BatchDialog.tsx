@@ -0,0 +1,227 @@
+import { useEffect, useRef, useState } from "react";
+import { AlertTriangle, Download, ImagePlus, Layers, Loader2, Play, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ChartProfile, SelectionBox } from "@/types";
+import { analyzeImageInWorker, isAbortError } from "@/utils/analysisWorker";
+import { getVerdictText } from "@/utils/benchmarks";
+import {
+  BatchAnalysisSettings,
+  BatchEntry,
+  exportBatchToCSV,
+  isAspectMismatch,
+  loadImagePixels,
+  scaleSelections,
+} from "@/utils/batch";
+
+const TEMPLATE_ID = "template";
+
+interface BatchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templateImage: ImageData | null; // Pixels of the annotated image, analysed as the first row
+  selections: SelectionBox[]; // Layout applied to every image
+  settings: BatchAnalysisSettings;
+  selectedProfile: ChartProfile | null;
+}
+
+const createEntry = (file: File): BatchEntry => ({
+  id: `batch-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+  name: file.name,
+  file,
+  width: 0,
+  height: 0,
+  status: "pending",
+  result: null,
+  error: null,
+});
+
+export function BatchDialog({ open, onOpenChange, templateImage, selections, settings, selectedProfile }: BatchDialogProps) {
+  const [entries, setEntries] = useState<BatchEntry[]>([]); // Added images; kept while the dialog is closed
+  const [templateEntry, setTemplateEntry] = useState<BatchEntry | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0); // Whole batch, 0-100
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const templateSize = { width: templateImage?.width ?? 0, height: templateImage?.height ?? 0 };
+
+  // Results go stale when the template, its layout or the settings change
+  useEffect(() => {
+    setTemplateEntry(templateImage ? {
+      id: TEMPLATE_ID, name: "Current image (template)", file: null,
+      width: templateImage.width, height: templateImage.height,
+      status: "pending", result: null, error: null,
+    } : null);
+    setEntries(prev => prev.map(entry => ({ ...entry, status: "pending", result: null, error: null })));
+  }, [templateImage, selections, settings]);
+
+  // Stop a running batch when the dialog goes away
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const rows = templateEntry ? [templateEntry, ...entries] : entries;
+
+  const updateEntry = (id: string, update: Partial<BatchEntry>) => {
+    if (id === TEMPLATE_ID) setTemplateEntry(prev => (prev ? { ...prev, ...update } : prev));
+    else setEntries(prev => prev.map(entry => (entry.id === id ? { ...entry, ...update } : entry)));
+  };
+
+  const handleAddFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).filter(file => file.type.startsWith("image/"));
+    setEntries(prev => [...prev, ...files.map(createEntry)]);
+    e.target.value = ""; // Allow adding the same files again
+  };
+
+  // Analyses the rows one at a time so only one image is decoded at once
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    setProgress(0);
+
+    const queue = rows.filter(row => row.status !== "done");
+    for (let i = 0; i < queue.length; i++) {
+      const row = queue[i];
+      if (controller.signal.aborted) break;
+      updateEntry(row.id, { status: "analyzing", error: null });
+      try {
+        const pixels = row.file ? await loadImagePixels(row.file) : templateImage!;
+        updateEntry(row.id, { width: pixels.width, height: pixels.height });
+        const layout = scaleSelections(selections, templateSize, pixels);
+        const result = await analyzeImageInWorker(
+          pixels,
+          layout,
+          settings.backgroundColor,
+          settings.inkThreshold,
+          settings.colorMetric,
+          settings.backgroundMode,
+          settings.fractionalCoverage,
+          settings.canvasMode,
+          null,
+          { signal: controller.signal, onProgress: (fraction) => setProgress(((i + fraction) / queue.length) * 100) }
+        );
+        updateEntry(row.id, { status: "done", result });
+      } catch (error) {
+        if (isAbortError(error)) {
+          updateEntry(row.id, { status: "pending" });
+          break;
+        }
+        console.error(`Batch analysis failed for ${row.name}:`, error);
+        updateEntry(row.id, { status: "error", error: error instanceof Error ? error.message : "Analysis failed." });
+      }
+      setProgress(((i + 1) / queue.length) * 100);
+    }
+
+    if (abortControllerRef.current === controller) abortControllerRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleExportCSV = () => {
+    const blob = new Blob([exportBatchToCSV(rows, selectedProfile)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "batch-analysis.csv";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const hasResults = rows.some(row => row.result);
+  const hasPending = rows.some(row => row.status !== "done");
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!isRunning) onOpenChange(next); }}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><Layers className="w-4 h-4" /> Batch Analysis</DialogTitle>
+          <DialogDescription>
+            Applies the {selections.length} selection{selections.length === 1 ? "" : "s"} of the current image to each image, scaled to its size, and analyses it with the current settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Image</TableHead>
+                <TableHead className="text-right">Size</TableHead>
+                <TableHead className="text-right">Efficiency</TableHead>
+                <TableHead className="text-right">Density</TableHead>
+                <TableHead>Verdict</TableHead>
+                <TableHead className="w-8" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => {
+                const verdict = row.result && selectedProfile
+                  ? getVerdictText(row.result.efficiencyRatio, selectedProfile.benchmarks.efficiency, "efficiency", selectedProfile.name)
+                  : null;
+                const stretched = row.width > 0 && isAspectMismatch(templateSize, row);
+                return (
+                  <TableRow key={row.id}>
+                    <TableCell className="max-w-[220px]">
+                      <div className="flex items-center gap-1.5">
+                        <span className="truncate" title={row.name}>{row.name}</span>
+                        {stretched && (
+                          <span title="Different aspect ratio: the layout is stretched to fit"><AlertTriangle className="w-3.5 h-3.5 text-yellow-600 flex-shrink-0" /></span>
+                        )}
+                      </div>
+                      {row.status === "error" && <p className="text-xs text-destructive truncate" title={row.error ?? ""}>{row.error}</p>}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums text-muted-foreground">{row.width > 0 ? `${row.width} × ${row.height}` : "–"}</TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {row.status === "analyzing" ? <Loader2 className="w-4 h-4 ml-auto animate-spin text-muted-foreground" /> : row.result ? `${(row.result.efficiencyRatio * 100).toFixed(1)}%` : "–"}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{row.result ? `${(row.result.densityRatio * 100).toFixed(1)}%` : "–"}</TableCell>
+                    <TableCell className={`text-xs font-medium ${verdict?.color ?? "text-muted-foreground"}`}>{verdict?.text ?? (row.result ? "No profile selected" : "")}</TableCell>
+                    <TableCell>
+                      {row.file && (
+                        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={isRunning} onClick={() => setEntries(prev => prev.filter(entry => entry.id !== row.id))}>
+                          <X className="w-3.5 h-3.5" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {entries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-sm text-muted-foreground py-6">
+                    Add images generated from the same template to analyse them with this layout.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {isRunning && <Progress value={progress} className="h-1.5" />}
+
+        <DialogFooter className="flex-row items-center gap-2 sm:justify-between">
+          <label htmlFor="batch-images" className={isRunning ? "pointer-events-none opacity-50" : "cursor-pointer"}>
+            <Input type="file" accept="image/*" multiple onChange={handleAddFiles} className="hidden" id="batch-images" disabled={isRunning} />
+            <Button asChild variant="outline" size="sm" className="h-9 pointer-events-none">
+              <span className="flex items-center gap-1.5"><ImagePlus className="w-4 h-4" /> Add Images</span>
+            </Button>
+          </label>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" className="h-9" onClick={handleExportCSV} disabled={!hasResults || isRunning}>
+              <Download className="w-4 h-4 mr-1.5" /> CSV
+            </Button>
+            {isRunning ? (
+              <Button variant="outline" size="sm" className="h-9" onClick={() => abortControllerRef.current?.abort()}>
+                <X className="w-4 h-4 mr-1.5" /> Cancel
+              </Button>
+            ) : (
+              <Button size="sm" className="h-9" onClick={handleRun} disabled={!templateImage || selections.length === 0 || !hasPending}>
+                <Play className="w-4 h-4 mr-1.5" /> Analyze All
+              </Button>
+            )}
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
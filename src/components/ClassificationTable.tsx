@@ -4,9 +4,10 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
-import { ArrowUp, ArrowDown, Trash2 } from "lucide-react";
+import { ArrowUp, ArrowDown, Trash2, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { getSelectionArea, isMaskSelection, isPolygonSelection } from "../utils/geometry";
 
 interface ClassificationTableProps {
   selections: SelectionBox[];
@@ -258,8 +259,22 @@ export function ClassificationTable({
 
             {/* Dimensions */}
             <div className="text-sm text-muted-foreground">
-              Area: {Math.round(selection.width)} × {Math.round(selection.height)} ={" "}
-              {Math.round(selection.width * selection.height)} pixels
+              {isMaskSelection(selection) ? (
+                <>
+                  Mask (bounds {selection.width} × {selection.height}) ={" "}
+                  {getSelectionArea(selection)} pixels
+                </>
+              ) : isPolygonSelection(selection) ? (
+                <>
+                  Polygon ({selection.points!.length} points, bounds {Math.round(selection.width)} × {Math.round(selection.height)}) ={" "}
+                  {Math.round(getSelectionArea(selection))} pixels
+                </>
+              ) : (
+                <>
+                  Area: {Math.round(selection.width)} × {Math.round(selection.height)} ={" "}
+                  {Math.round(selection.width * selection.height)} pixels
+                </>
+              )}
             </div>
 
             {/* Classification */}
@@ -307,6 +322,28 @@ export function ClassificationTable({
                 Count Full Area (ignore ink detection)
               </Label>
             </div>
+
+            {/* Local background, set with Alt+click in eyedropper mode */}
+            {selection.backgroundColor && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <div
+                  className="w-4 h-4 rounded border border-border"
+                  style={{ backgroundColor: `rgb(${selection.backgroundColor.r}, ${selection.backgroundColor.g}, ${selection.backgroundColor.b})` }}
+                />
+                <span>
+                  Own background: rgb({selection.backgroundColor.r}, {selection.backgroundColor.g}, {selection.backgroundColor.b})
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateSelection(selection.id, { backgroundColor: undefined })}
+                  className="h-6 w-6 p-0"
+                  title="Use the global background model"
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            )}
           </div>
           </CardContent>
         </Card>
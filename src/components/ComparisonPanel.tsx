@@ -11,9 +11,8 @@ import {
 } from "@/components/ui/select";
 // import { Separator } from "@/components/ui/separator"; // Separator seems unused now
 import { ComparisonResult, ReferenceVisualization } from "@/types/comparison";
-import { AnalysisResult, ChartProfile } from "@/types";
-import { compareToReference } from "@/utils/comparison";
-import { getReferencesForChartType } from "@/utils/references";
+import { AnalysisResult, CanvasMode, ChartProfile } from "@/types";
+import { compareToReference, getReferencesForChartType } from "@/analysis";
 import {
   ArrowUpRight,
   ArrowDownRight,
@@ -31,21 +30,22 @@ import {
 interface ComparisonPanelProps {
   result: AnalysisResult | null; // Allow null for result
   selectedProfile: ChartProfile | null;
+  canvasMode: CanvasMode; // Picks the light or dark variants of the reference library
+  comparison: ComparisonResult | null; // Held by the parent so reports can include it
+  onComparisonChange: (comparison: ComparisonResult | null) => void;
 }
 
-export function ComparisonPanel({ result, selectedProfile }: ComparisonPanelProps) {
-  const [comparison, setComparison] = useState<ComparisonResult | null>(null);
-  const [selectedReferenceId, setSelectedReferenceId] = useState<string>("");
+export function ComparisonPanel({ result, selectedProfile, canvasMode, comparison, onComparisonChange: setComparison }: ComparisonPanelProps) {
+  const [selectedReferenceId, setSelectedReferenceId] = useState<string>(comparison?.reference.id ?? "");
 
   const references = selectedProfile
-    ? getReferencesForChartType(selectedProfile.id)
+    ? getReferencesForChartType(selectedProfile.id, canvasMode)
     : [];
 
-  // Reset comparison when profile or result changes
+  // Reset the reference choice when profile or result changes (the parent clears the comparison)
   useEffect(() => {
-    setComparison(null);
-    setSelectedReferenceId("");
-  }, [selectedProfile, result]); // Added result dependency
+    if (!comparison) setSelectedReferenceId("");
+  }, [selectedProfile, result, canvasMode, comparison]);
 
 
   const handleCompare = () => {
@@ -1,16 +1,16 @@
-import { useRef, useEffect, useState, useCallback } from "react";
+import { useRef, useEffect, useState, useCallback, useMemo, useDeferredValue } from "react";
 // *** ADD cn import ***
 import { cn } from "@/lib/utils"; // <--- ADD THIS LINE
-import { SelectionBox, ComponentDefinition, ImageData as AppImageData } from "../types";
-import { Trash2, Upload, Loader2 } from "lucide-react";
+import { SelectionBox, SelectionMask, ComponentDefinition, Point, ToolMode, ColorMetric, InkCluster, CanvasMode } from "../types";
+import { ImageData as AppImageData } from "../types/app";
+import { Trash2, Upload, Loader2, Eye, EyeOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { floodFill } from "../utils/floodFill";
-
-// Define Point type locally if not imported
-interface Point {
-  x: number;
-  y: number;
-}
+import { floodFillInWorker } from "../utils/analysisWorker";
+import { getPolygonBounds, getPolygonArea, isMaskSelection, isPointInSelection, isPolygonSelection, translateSelection, resizeSelection } from "../utils/geometry";
+import { decodeMask } from "../utils/mask";
+import { InkIntegral, estimateLayerStats } from "../utils/integralImage";
+import { inkOverlayPalettes, renderInkOverlay } from "../utils/inkOverlay";
+import { canvasModeBackgrounds } from "../utils/canvasMode";
 
 
 interface ImageCanvasProps {
@@ -20,14 +20,26 @@ interface ImageCanvasProps {
   selections: SelectionBox[];
   onSelectionsChange: (selections: SelectionBox[]) => void;
   onImageReady: (imageData: ImageData | null, bitmap: ImageBitmap | null) => void; // Allow null on error
-  toolMode: "select" | "eyedropper" | "magicwand";
+  toolMode: ToolMode;
   onBackgroundColorSample: (color: { r: number; g: number; b: number }) => void;
+  onSelectionBackgroundSample: (selectionId: string, color: { r: number; g: number; b: number }) => void; // Alt+click with the eyedropper
   currentComponent: ComponentDefinition | null;
   magicWandTolerance: number;
+  colorMetric: ColorMetric;
+  canvasMode: CanvasMode; // Picks overlay colours and the backdrop behind transparent pixels
+  inkIntegral: InkIntegral | null;
+  paintOwnership: Int32Array | null; // SVG paint-order owners of the last analysis, built for `selections`
+  unclassifiedClusters: InkCluster[]; // Outlined on the canvas; clicking one creates a selection
+  highlightedCluster: InkCluster | null;
+  onCreateSelectionFromCluster: (cluster: InkCluster) => void;
   isImageLoading: boolean;
+  onFileDrop: (file: File) => void; // Image, SVG or PDF dropped onto the canvas (empty or loaded)
 }
 
-type DragMode = "draw" | "move" | "resize" | null;
+// Files the canvas takes; anything else (bundles, sessions) bubbles up to the page
+const isLoadableFileType = (type: string) => type.startsWith("image/") || type === "application/pdf";
+
+type DragMode = "draw" | "move" | "resize" | "lasso" | null;
 type ResizeHandle = "nw" | "ne" | "sw" | "se" | "n" | "s" | "e" | "w" | null;
 
 export function ImageCanvas({
@@ -39,14 +51,27 @@ export function ImageCanvas({
   onImageReady,
   toolMode,
   onBackgroundColorSample,
+  onSelectionBackgroundSample,
   currentComponent,
   magicWandTolerance,
+  colorMetric,
+  canvasMode,
+  inkIntegral,
+  paintOwnership,
+  unclassifiedClusters,
+  highlightedCluster,
+  onCreateSelectionFromCluster,
   isImageLoading,
+  onFileDrop,
 }: ImageCanvasProps) {
   // Use separate refs for display and offscreen data canvas
   const displayCanvasRef = useRef<HTMLCanvasElement>(null);
   const offscreenCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const containerRef = useRef<HTMLDivElement>(null); // Ref for the zoom/pan container
+  const isWandRunning = useRef(false); // Ignore wand clicks while a fill is computing in the worker
+  const latestRef = useRef({ selections, imageUrl }); // Read when a worker fill finishes, not when it started
+  latestRef.current = { selections, imageUrl };
+  const maskOverlayCache = useRef(new WeakMap<SelectionMask, { color: string; canvas: HTMLCanvasElement }>()); // Tinted mask bitmaps
 
   const [scale, setScale] = useState(1);
   const [offset, setOffset] = useState({ x: 0, y: 0 });
@@ -59,6 +84,15 @@ export function ImageCanvas({
   const [resizeHandle, setResizeHandle] = useState<ResizeHandle>(null);
   const [hoveredId, setHoveredId] = useState<string | null>(null);
   const [imageBitmap, setImageBitmap] = useState<ImageBitmap | null>(null);
+  const [polygonPoints, setPolygonPoints] = useState<Point[]>([]); // In-progress polygon/lasso vertices
+  const [cursorPoint, setCursorPoint] = useState<Point | null>(null); // Rubber-band end for the polygon tool
+  const [showInkOverlay, setShowInkOverlay] = useState(false); // Tint ink pixels by owner, grey out background
+
+  // Discard an unfinished polygon/lasso when switching tools
+  useEffect(() => {
+    setPolygonPoints([]);
+    setCursorPoint(null);
+  }, [toolMode]);
 
   // Recalculate Scale and Centering
   useEffect(() => {
@@ -135,7 +169,48 @@ export function ImageCanvas({
     return () => { isCancelled = true; };
   }, [imageUrl, onImageReady]);
 
+  // Builds (or reuses) a canvas with the mask's pixels tinted in the selection colour
+  const getMaskOverlay = useCallback((mask: SelectionMask, color: string): HTMLCanvasElement => {
+    const cached = maskOverlayCache.current.get(mask);
+    if (cached && cached.color === color) return cached.canvas;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = mask.width;
+    canvas.height = mask.height;
+    const ctx = canvas.getContext("2d");
+    if (ctx && mask.width > 0 && mask.height > 0) {
+      const bits = decodeMask(mask);
+      const overlay = ctx.createImageData(mask.width, mask.height);
+      const r = parseInt(color.slice(1, 3), 16), g = parseInt(color.slice(3, 5), 16), b = parseInt(color.slice(5, 7), 16);
+      for (let i = 0; i < bits.length; i++) {
+        if (!bits[i]) continue;
+        overlay.data[i * 4] = r;
+        overlay.data[i * 4 + 1] = g;
+        overlay.data[i * 4 + 2] = b;
+        overlay.data[i * 4 + 3] = 255;
+      }
+      ctx.putImageData(overlay, 0, 0);
+    }
+    maskOverlayCache.current.set(mask, { color, canvas });
+    return canvas;
+  }, []);
+
   // Redraw canvas with image and selections
+  // Ink mask overlay, rebuilt when the ink map (threshold/background) or the layers change.
+  // Selections are deferred so dragging a box stays responsive on large images.
+  const overlaySelections = useDeferredValue(selections);
+  const overlayPalette = inkOverlayPalettes[canvasMode];
+  const inkOverlay = useMemo(() => {
+    if (!showInkOverlay || !inkIntegral) return null;
+    const overlayCanvas = document.createElement("canvas");
+    overlayCanvas.width = inkIntegral.width;
+    overlayCanvas.height = inkIntegral.height;
+    // The paint-order map only applies once the deferred selections have caught up with it
+    const ownership = overlaySelections === selections ? paintOwnership : null;
+    overlayCanvas.getContext("2d")?.putImageData(renderInkOverlay(inkIntegral, overlaySelections, overlayPalette, ownership), 0, 0);
+    return overlayCanvas;
+  }, [showInkOverlay, inkIntegral, overlaySelections, selections, paintOwnership, overlayPalette]);
+
   useEffect(() => {
     if (!displayCanvasRef.current || !imageBitmap || !imageWidth || !imageHeight) return;
 
@@ -145,8 +220,24 @@ export function ImageCanvas({
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
 
+    const isDark = canvasMode === "dark";
     ctx.clearRect(0, 0, canvas.width, canvas.height);
     ctx.drawImage(imageBitmap, 0, 0);
+    if (inkOverlay) ctx.drawImage(inkOverlay, 0, 0);
+
+    // Unclassified ink clusters from the last analysis, under the selections
+    unclassifiedClusters.forEach((cluster) => {
+        const isHighlighted = cluster === highlightedCluster;
+        ctx.strokeStyle = isDark ? "#f87171" : "#ef4444";
+        ctx.lineWidth = (isHighlighted ? 2.5 : 1.5) / scale;
+        ctx.setLineDash([3 / scale, 3 / scale]);
+        if (isHighlighted) {
+            ctx.fillStyle = isDark ? "#f8717140" : "#ef444430";
+            ctx.fillRect(cluster.x, cluster.y, cluster.width, cluster.height);
+        }
+        ctx.strokeRect(cluster.x, cluster.y, cluster.width, cluster.height);
+        ctx.setLineDash([]);
+    });
 
     selections.forEach((sel) => {
         const isSelected = sel.id === selectedId;
@@ -154,8 +245,24 @@ export function ImageCanvas({
         ctx.lineWidth = isSelected ? (3 / scale) : (2 / scale); // Scale line width
         ctx.fillStyle = sel.color + (isSelected ? "40" : "20"); // Adjusted opacity
 
-        ctx.fillRect(sel.x, sel.y, sel.width, sel.height);
-        ctx.strokeRect(sel.x, sel.y, sel.width, sel.height);
+        if (isPolygonSelection(sel)) {
+            ctx.beginPath();
+            sel.points!.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+            ctx.closePath();
+            ctx.fill();
+            ctx.stroke();
+        } else if (isMaskSelection(sel)) {
+            // Tint exactly the masked pixels, then outline the mask extent
+            ctx.globalAlpha = isSelected ? 0.45 : 0.3;
+            ctx.drawImage(getMaskOverlay(sel.mask!, sel.color), Math.round(sel.x), Math.round(sel.y));
+            ctx.globalAlpha = 1;
+            ctx.setLineDash([4 / scale, 3 / scale]);
+            ctx.strokeRect(Math.round(sel.x), Math.round(sel.y), sel.width, sel.height);
+            ctx.setLineDash([]);
+        } else {
+            ctx.fillRect(sel.x, sel.y, sel.width, sel.height);
+            ctx.strokeRect(sel.x, sel.y, sel.width, sel.height);
+        }
 
         // --- Draw Label ---
         ctx.font = `bold ${13 / scale}px sans-serif`; // Scale font size
@@ -167,7 +274,7 @@ export function ImageCanvas({
         const textHeight = 14 / scale; // Approximate scaled height
 
         // Label Background
-        ctx.fillStyle = "rgba(255, 255, 255, 0.75)";
+        ctx.fillStyle = isDark ? "rgba(15, 23, 42, 0.8)" : "rgba(255, 255, 255, 0.75)";
         ctx.fillRect(sel.x + textPadding, sel.y + textPadding, textMetrics.width + textPadding * 2, textHeight + textPadding);
 
         // Label Text
@@ -175,11 +282,11 @@ export function ImageCanvas({
         ctx.fillText(text, sel.x + textPadding * 2, sel.y + textPadding + (2 / scale));
         // ---------------
 
-        if (isSelected) {
+        if (isSelected && !isMaskSelection(sel)) {
             const handleSize = 8 / scale;
             const halfHandle = handleSize / 2;
             ctx.fillStyle = sel.color;
-            ctx.strokeStyle = "white";
+            ctx.strokeStyle = isDark ? "black" : "white";
             ctx.lineWidth = 1 / scale;
 
             const handles = [
@@ -200,7 +307,23 @@ export function ImageCanvas({
       ctx.strokeRect(currentBox.x, currentBox.y, currentBox.width, currentBox.height);
       ctx.setLineDash([]);
     }
-  }, [imageBitmap, selections, selectedId, currentBox, scale, imageWidth, imageHeight, currentComponent]);
+
+    if (polygonPoints.length > 0) {
+      ctx.strokeStyle = currentComponent?.color || "#3b82f6";
+      ctx.lineWidth = 2 / scale;
+      ctx.setLineDash([6 / scale, 4 / scale]);
+      ctx.beginPath();
+      polygonPoints.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      if (cursorPoint) ctx.lineTo(cursorPoint.x, cursorPoint.y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      // Mark the first vertex so users know where to click to close the polygon
+      const vertexSize = 6 / scale;
+      ctx.fillStyle = currentComponent?.color || "#3b82f6";
+      ctx.fillRect(polygonPoints[0].x - vertexSize / 2, polygonPoints[0].y - vertexSize / 2, vertexSize, vertexSize);
+    }
+  }, [imageBitmap, selections, selectedId, currentBox, polygonPoints, cursorPoint, scale, imageWidth, imageHeight, currentComponent, getMaskOverlay, unclassifiedClusters, highlightedCluster, inkOverlay, canvasMode]);
 
 
   // Screen to Image Coordinates
@@ -217,15 +340,41 @@ export function ImageCanvas({
  const findSelectionAt = useCallback((imgX: number, imgY: number): SelectionBox | null => {
     for (let i = selections.length - 1; i >= 0; i--) {
       const sel = selections[i];
-      // Use simple bounding box check
-      if (imgX >= sel.x && imgX <= sel.x + sel.width && imgY >= sel.y && imgY <= sel.y + sel.height) {
+      // Shape-aware check (bounding box for rectangles, outline for polygons)
+      if (isPointInSelection(sel, imgX, imgY)) {
         return sel;
       }
     }
     return null;
   }, [selections]);
 
+  // Turns the in-progress vertex list into a polygon selection
+  const finishPolygon = useCallback((points: Point[]) => {
+    // Drop consecutive duplicates (e.g. the two clicks of a double-click)
+    const cleaned = points.filter((p, i) => i === 0 || Math.hypot(p.x - points[i - 1].x, p.y - points[i - 1].y) > 1 / scale);
+    setPolygonPoints([]);
+    setCursorPoint(null);
+    if (cleaned.length < 3) return;
+
+    const bounds = getPolygonBounds(cleaned);
+    if (bounds.width <= 5 || bounds.height <= 5 || getPolygonArea(cleaned) < 25) return;
+
+    const newPolygon: SelectionBox = {
+        id: `sel-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+        ...bounds,
+        label: currentComponent?.name || `Selection ${selections.length + 1}`,
+        color: currentComponent?.color || "#3b82f6",
+        isData: currentComponent?.isData ?? true,
+        countFullArea: false,
+        shape: "polygon",
+        points: cleaned,
+    };
+    onSelectionsChange([...selections, newPolygon]);
+    setSelectedId(newPolygon.id);
+  }, [scale, currentComponent, selections, onSelectionsChange]);
+
  const findResizeHandle = useCallback((selection: SelectionBox, imgX: number, imgY: number): ResizeHandle => {
+    if (isMaskSelection(selection)) return null; // Masks are pixel-exact and can only be moved
     const handleHitboxSize = 12 / scale;
     const threshold = handleHitboxSize / 2;
     const { x: sx, y: sy, width: sw, height: sh } = selection;
@@ -261,33 +410,69 @@ export function ImageCanvas({
             const offscreenCtx = offscreenCanvasRef.current.getContext('2d', { willReadFrequently: true });
             if (offscreenCtx) {
                  const pixelData = offscreenCtx.getImageData(Math.floor(imgX), Math.floor(imgY), 1, 1).data;
-                 onBackgroundColorSample({ r: pixelData[0], g: pixelData[1], b: pixelData[2] });
+                 let color = { r: pixelData[0], g: pixelData[1], b: pixelData[2] };
+                 if (canvasMode === "dark" && pixelData[3] < 255) {
+                     // Sample the colour shown over the dark backdrop, as the ink detector sees it
+                     const alpha = pixelData[3] / 255, backdrop = canvasModeBackgrounds.dark;
+                     const mix = (channel: number, base: number) => Math.round(channel * alpha + base * (1 - alpha));
+                     color = { r: mix(color.r, backdrop.r), g: mix(color.g, backdrop.g), b: mix(color.b, backdrop.b) };
+                 }
+                 // Alt+click (Shift+click pans) assigns the colour as the local background of the topmost selection under the cursor
+                 const target = e.altKey ? findSelectionAt(imgX, imgY) : null;
+                 if (target) onSelectionBackgroundSample(target.id, color);
+                 else onBackgroundColorSample(color);
             }
             return;
         }
 
         if (toolMode === "magicwand" && offscreenCanvasRef.current) {
             const offscreenCtx = offscreenCanvasRef.current.getContext('2d', { willReadFrequently: true });
-            if (offscreenCtx) {
+            if (offscreenCtx && !isWandRunning.current) {
                 const imgData = offscreenCtx.getImageData(0, 0, offscreenCanvasRef.current.width, offscreenCanvasRef.current.height);
-                const bbox = floodFill(imgData, Math.floor(imgX), Math.floor(imgY), magicWandTolerance);
-                 if (bbox && bbox.maxX > bbox.minX && bbox.maxY > bbox.minY) {
+                isWandRunning.current = true;
+                const sourceUrl = latestRef.current.imageUrl;
+                floodFillInWorker(imgData, Math.floor(imgX), Math.floor(imgY), magicWandTolerance, colorMetric, canvasMode === "dark" ? canvasModeBackgrounds.dark : null)
+                  .then((region) => {
+                    const latest = latestRef.current;
+                    if (latest.imageUrl !== sourceUrl) return; // The image was replaced during the fill
+                    if (!region) { console.log("Magic wand didn't find a significant region."); return; }
                     const newBox: SelectionBox = {
                         id: `sel-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
-                        x: bbox.minX, y: bbox.minY,
-                        width: bbox.maxX - bbox.minX + 1, height: bbox.maxY - bbox.minY + 1,
-                        label: currentComponent?.name || `Region ${selections.length + 1}`,
+                        x: region.minX, y: region.minY,
+                        width: region.maxX - region.minX + 1, height: region.maxY - region.minY + 1,
+                        label: currentComponent?.name || `Region ${latest.selections.length + 1}`,
                         color: currentComponent?.color || "#3b82f6",
                         isData: currentComponent?.isData ?? true,
                         countFullArea: false,
+                        shape: "mask",
+                        mask: region.mask,
                     };
-                    onSelectionsChange([...selections, newBox]);
+                    onSelectionsChange([...latest.selections, newBox]); // Keeps edits made while the fill ran
                     setSelectedId(newBox.id);
-                } else { console.log("Magic wand didn't find a significant region."); }
+                  })
+                  .catch((error) => console.error("Magic wand failed:", error))
+                  .finally(() => { isWandRunning.current = false; });
+            }
+            return;
+        }
+
+        if (toolMode === "polygon") {
+            // Clicking near the first vertex closes the polygon
+            const closeRadius = 8 / scale;
+            if (polygonPoints.length >= 3 && Math.hypot(imgX - polygonPoints[0].x, imgY - polygonPoints[0].y) < closeRadius) {
+                finishPolygon(polygonPoints);
+            } else {
+                setPolygonPoints(prev => [...prev, { x: imgX, y: imgY }]);
             }
             return;
         }
 
+        if (toolMode === "lasso") {
+            setDragMode("lasso"); setSelectedId(null);
+            setPolygonPoints([{ x: imgX, y: imgY }]);
+            return;
+        }
+
         if (toolMode === 'select') {
             const selection = findSelectionAt(imgX, imgY);
             const handle = selection ? findResizeHandle(selection, imgX, imgY) : null;
@@ -308,7 +493,7 @@ export function ImageCanvas({
             setStartPoint({ x: imgX, y: imgY });
         }
      }
-  }, [imageBitmap, isImageLoading, toolMode, currentComponent, selections, onBackgroundColorSample, onSelectionsChange, findSelectionAt, findResizeHandle, screenToImageCoords, offset, magicWandTolerance]);
+  }, [imageBitmap, isImageLoading, toolMode, currentComponent, selections, onBackgroundColorSample, onSelectionBackgroundSample, onSelectionsChange, findSelectionAt, findResizeHandle, screenToImageCoords, offset, magicWandTolerance, colorMetric, canvasMode, scale, polygonPoints, finishPolygon]);
 
   // Mouse Move Handler
   const handleMouseMove = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
@@ -324,9 +509,15 @@ export function ImageCanvas({
 
     if (dragMode === "draw" && currentBox) {
         setCurrentBox(prev => prev ? { ...prev, width: imgX - prev.x, height: imgY - prev.y } : null);
+    } else if (dragMode === "lasso") {
+        // Sample the freehand path, skipping sub-pixel jitter
+        setPolygonPoints(prev => {
+            const last = prev[prev.length - 1];
+            return last && Math.hypot(imgX - last.x, imgY - last.y) < 2 / scale ? prev : [...prev, { x: imgX, y: imgY }];
+        });
     } else if (dragMode === "move" && selectedId) {
          const dx = imgX - startPoint.x; const dy = imgY - startPoint.y;
-         onSelectionsChange(prev => prev.map(sel => sel.id === selectedId ? { ...sel, x: sel.x + dx, y: sel.y + dy } : sel));
+         onSelectionsChange(prev => prev.map(sel => sel.id === selectedId ? translateSelection(sel, dx, dy) : sel));
          setStartPoint({ x: imgX, y: imgY });
     } else if (dragMode === "resize" && selectedId && resizeHandle) {
          const dx = imgX - startPoint.x; const dy = imgY - startPoint.y;
@@ -339,14 +530,18 @@ export function ImageCanvas({
                  case "sw": x += dx; width -= dx; height += dy; break;
                  case "se": width += dx; height += dy; break;
              }
-             return { ...sel, x, y, width, height };
+             return resizeSelection(sel, { x, y, width, height });
          }));
         setStartPoint({ x: imgX, y: imgY });
     } else {
         // Handle Hover Effects and Cursor Changes
         let cursor = 'default';
         let newHoveredId: string | null = null;
-        if (toolMode === "eyedropper" || toolMode === 'magicwand') { cursor = "crosshair"; }
+        if (toolMode === "eyedropper" || toolMode === 'magicwand' || toolMode === 'lasso') { cursor = "crosshair"; }
+        else if (toolMode === 'polygon') {
+            cursor = "crosshair";
+            if (polygonPoints.length > 0) setCursorPoint({ x: imgX, y: imgY });
+        }
         else if (toolMode === 'select') {
             const selection = findSelectionAt(imgX, imgY);
              newHoveredId = selection?.id || null;
@@ -364,12 +559,12 @@ export function ImageCanvas({
              currentCursorTarget.style.cursor = cursor;
         }
     }
-  }, [imageBitmap, isImageLoading, isPanning, panStart, dragMode, toolMode, selectedId, resizeHandle, currentBox, startPoint, scale, screenToImageCoords, onSelectionsChange, findSelectionAt, findResizeHandle, hoveredId]);
+  }, [imageBitmap, isImageLoading, isPanning, panStart, dragMode, toolMode, selectedId, resizeHandle, currentBox, startPoint, scale, screenToImageCoords, onSelectionsChange, findSelectionAt, findResizeHandle, hoveredId, polygonPoints]);
 
   // Mouse Up Handler
   const handleMouseUp = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
      // Determine default cursor based on tool mode for reset
-     const defaultCursor = toolMode === 'select' ? 'crosshair' : (toolMode === 'eyedropper' || toolMode === 'magicwand' ? 'crosshair' : 'default');
+     const defaultCursor = toolMode === 'select' ? 'crosshair' : (toolMode === 'eyedropper' || toolMode === 'magicwand' || toolMode === 'polygon' || toolMode === 'lasso' ? 'crosshair' : 'default');
      (e.currentTarget as HTMLDivElement).style.cursor = defaultCursor;
 
     if (isPanning) { setIsPanning(false); return; }
@@ -383,12 +578,28 @@ export function ImageCanvas({
         const finalBox: SelectionBox = { ...boxData, id: `sel-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`, x, y, width, height };
         onSelectionsChange([...selections, finalBox]);
         setSelectedId(finalBox.id);
+      } else {
+        // A plain click on an unclassified cluster turns it into a selection (smallest match wins)
+        const clicked = unclassifiedClusters
+          .filter(c => startPoint.x >= c.x && startPoint.x <= c.x + c.width && startPoint.y >= c.y && startPoint.y <= c.y + c.height)
+          .sort((a, b) => a.width * a.height - b.width * b.height)[0];
+        if (clicked) onCreateSelectionFromCluster(clicked);
       }
       setCurrentBox(null);
     }
+    if (dragMode === "lasso") {
+      finishPolygon(polygonPoints);
+    }
     setDragMode(null);
     setResizeHandle(null);
-  }, [isPanning, dragMode, currentBox, selections, onSelectionsChange, toolMode]);
+  }, [isPanning, dragMode, currentBox, selections, onSelectionsChange, toolMode, polygonPoints, finishPolygon, unclassifiedClusters, startPoint, onCreateSelectionFromCluster]);
+
+  // Double-click closes an in-progress polygon
+  const handleDoubleClick = useCallback(() => {
+    if (toolMode === "polygon" && polygonPoints.length >= 3) {
+      finishPolygon(polygonPoints);
+    }
+  }, [toolMode, polygonPoints, finishPolygon]);
 
   // Mouse Leave Handler
     const handleMouseLeave = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
@@ -419,6 +630,22 @@ export function ImageCanvas({
      return () => window.removeEventListener('keydown', handleKeyDown);
    }, [selectedId, handleDelete]);
 
+  // Polygon Key Listener (Enter closes, Escape cancels)
+   useEffect(() => {
+     if (polygonPoints.length === 0) return;
+     const handleKeyDown = (e: KeyboardEvent) => {
+       if (e.key === 'Escape') {
+          setPolygonPoints([]);
+          setCursorPoint(null);
+       } else if (e.key === 'Enter' && toolMode === 'polygon') {
+          e.preventDefault();
+          finishPolygon(polygonPoints);
+       }
+     };
+     window.addEventListener('keydown', handleKeyDown);
+     return () => window.removeEventListener('keydown', handleKeyDown);
+   }, [polygonPoints, toolMode, finishPolygon]);
+
   // Wheel Handler (Zoom)
   const handleWheel = useCallback((e: React.WheelEvent<HTMLDivElement>) => {
     if (!imageBitmap || !containerRef.current) return;
@@ -443,6 +670,25 @@ export function ImageCanvas({
 
   }, [scale, offset, imageBitmap]);
 
+  // Live ink stats for the box being drawn or the selected box, from the integral image (no full analysis)
+  const liveStats = useMemo(() => {
+    if (!inkIntegral) return null;
+    let layerSelections = selections;
+    let activeId = selectedId;
+    if (currentBox) {
+      const draft = { ...currentBox };
+      if (draft.width < 0) { draft.x += draft.width; draft.width = -draft.width; }
+      if (draft.height < 0) { draft.y += draft.height; draft.height = -draft.height; }
+      if (draft.width < 1 || draft.height < 1) return null;
+      layerSelections = [...selections, draft];
+      activeId = draft.id;
+    }
+    if (!activeId) return null;
+    const stats = estimateLayerStats(inkIntegral, layerSelections);
+    const active = stats.layers.find(layer => layer.id === activeId);
+    return active ? { inkPixels: active.inkPixels, efficiencyRatio: stats.efficiencyRatio } : null;
+  }, [inkIntegral, selections, selectedId, currentBox]);
+
   // Dynamic Class Names for Container
   // *** USE cn() HERE ***
   const canvasContainerClasses = cn(
@@ -451,13 +697,41 @@ export function ImageCanvas({
        isPanning ? 'cursor-grabbing' :
        toolMode === 'eyedropper' ? 'cursor-crosshair' :
        toolMode === 'magicwand' ? 'cursor-crosshair' : // Could use url(wand.cur), crosshair
+       toolMode === 'polygon' || toolMode === 'lasso' ? 'cursor-crosshair' :
        toolMode === 'select' ? 'cursor-crosshair' : // Default select cursor (changes on hover)
        'cursor-default',
        // Border feedback for tools
        toolMode === 'eyedropper' && 'ring-2 ring-blue-500 ring-offset-1',
        toolMode === 'magicwand' && 'ring-2 ring-purple-500 ring-offset-1',
+       (toolMode === 'polygon' || toolMode === 'lasso') && 'ring-2 ring-emerald-500 ring-offset-1',
    );
 
+  // File drops: highlight while a loadable file is dragged over the canvas
+  const [isFileOver, setIsFileOver] = useState(false);
+  const fileDropHandlers = {
+    onDragOver: (e: React.DragEvent<HTMLDivElement>) => {
+      if (!Array.from(e.dataTransfer.items).some(item => item.kind === "file" && isLoadableFileType(item.type))) return;
+      e.preventDefault(); // Claimed: the page-wide drop zone skips handled events
+      e.dataTransfer.dropEffect = "copy";
+      setIsFileOver(true);
+    },
+    onDragLeave: (e: React.DragEvent<HTMLDivElement>) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsFileOver(false);
+    },
+    onDrop: (e: React.DragEvent<HTMLDivElement>) => {
+      setIsFileOver(false);
+      const file = e.dataTransfer.files[0];
+      if (!file || !(isLoadableFileType(file.type) || /\.(svg|pdf)$/i.test(file.name))) return;
+      e.preventDefault();
+      onFileDrop(file);
+    },
+  };
+  const fileDropOverlay = isFileOver && (
+    <div className="absolute inset-0 z-20 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-background/80 pointer-events-none">
+      <p className="text-sm font-medium text-foreground">{imageUrl ? "Drop to replace the current image" : "Drop to load the image"}</p>
+    </div>
+  );
+
   // Render Logic
    if (isImageLoading) {
     return (
@@ -469,20 +743,44 @@ export function ImageCanvas({
 
   if (!imageUrl || !imageBitmap) {
     return (
-      <div className="flex-1 flex items-center justify-center bg-canvas rounded-lg border-2 border-dashed border-border p-4">
-        <div className="text-center p-8"><Upload className="w-12 h-12 mx-auto mb-4 text-muted-foreground" /><p className="text-lg font-medium text-foreground mb-2">No Image Loaded</p><p className="text-sm text-muted-foreground">Click "Upload" in the toolbar to begin.</p></div>
+      <div className="relative flex-1 flex items-center justify-center bg-canvas rounded-lg border-2 border-dashed border-border p-4" {...fileDropHandlers}>
+        <div className="text-center p-8"><Upload className="w-12 h-12 mx-auto mb-4 text-muted-foreground" /><p className="text-lg font-medium text-foreground mb-2">No Image Loaded</p><p className="text-sm text-muted-foreground">Click "Upload" in the toolbar, drop an image, SVG or PDF here, or paste a screenshot (Ctrl+V).</p></div>
+        {fileDropOverlay}
       </div>
     );
   }
 
   return (
-    <div className="flex-1 flex flex-col min-h-0 bg-background rounded-lg border">
+    <div className="relative flex-1 flex flex-col min-h-0 bg-background rounded-lg border" {...fileDropHandlers}>
+        {fileDropOverlay}
         <div className="flex items-center justify-between p-2 border-b text-xs text-muted-foreground">
-            <span>Zoom: {Math.round(scale * 100)}% | {selections.length} selection{selections.length !== 1 ? "s" : ""}</span>
-            {selectedId && <Button variant="destructive" size="xs" onClick={handleDelete} className="gap-1 h-6 px-1.5 py-0.5"><Trash2 className="w-3 h-3" />Delete</Button>}
+            <span>
+              Zoom: {Math.round(scale * 100)}% | {selections.length} selection{selections.length !== 1 ? "s" : ""}
+              {liveStats && <> | <span className="text-foreground tabular-nums">{liveStats.inkPixels.toLocaleString()} ink px</span> · provisional efficiency <span className="text-foreground tabular-nums">{(liveStats.efficiencyRatio * 100).toFixed(1)}%</span></>}
+            </span>
+            <div className="flex items-center gap-2">
+              {showInkOverlay && (
+                <span className="hidden sm:flex items-center gap-2">
+                  {([["Data", overlayPalette.data], ["Non-Data", overlayPalette.nonData], ["Unclassified", overlayPalette.unclassified], ["Background", overlayPalette.background]] as const).map(([name, [r, g, b]]) => (
+                    <span key={name} className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: `rgb(${r}, ${g}, ${b})` }} />{name}</span>
+                  ))}
+                </span>
+              )}
+              <Button
+                variant={showInkOverlay ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setShowInkOverlay(prev => !prev)}
+                disabled={!inkIntegral && !showInkOverlay}
+                className="gap-1 h-6 px-1.5 py-0.5 text-xs"
+                title="Show which pixels count as ink, tinted by the layer that owns them"
+              >
+                {showInkOverlay ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}Ink Mask
+              </Button>
+              {selectedId && <Button variant="destructive" size="xs" onClick={handleDelete} className="gap-1 h-6 px-1.5 py-0.5"><Trash2 className="w-3 h-3" />Delete</Button>}
+            </div>
         </div>
       {/* Container handles events and provides bounds for absolute canvas */}
-      <div ref={containerRef} className={canvasContainerClasses} onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseLeave} onWheel={handleWheel}>
+      <div ref={containerRef} className={canvasContainerClasses} onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseLeave} onDoubleClick={handleDoubleClick} onWheel={handleWheel}>
         {/* Canvas is absolutely positioned within the container */}
         <canvas
             ref={displayCanvasRef}
@@ -493,6 +791,8 @@ export function ImageCanvas({
                 width: `${imageWidth * scale}px`,
                 height: `${imageHeight * scale}px`,
                 imageRendering: scale > 3 ? 'pixelated' : 'auto',
+                // Transparent pixels show the backdrop they are analysed against
+                backgroundColor: canvasMode === "dark" ? `rgb(${canvasModeBackgrounds.dark.r}, ${canvasModeBackgrounds.dark.g}, ${canvasModeBackgrounds.dark.b})` : undefined,
                 willChange: 'transform',
             }}
           />
@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ImageSource } from "@/types/app";
+import {
+  DEFAULT_PDF_DPI,
+  PDF_DPI_OPTIONS,
+  PDFDocumentProxy,
+  getPdfPageSize,
+  openPdf,
+  rasterizePdfPage,
+  renderPdfPage,
+} from "@/utils/pdfImport";
+
+const PREVIEW_WIDTH = 320;
+
+interface PdfImportDialogProps {
+  file: File | null; // Open while a PDF is waiting for a page choice
+  onImport: (image: File, source: ImageSource) => void;
+  onCancel: () => void;
+}
+
+export function PdfImportDialog({ file, onImport, onCancel }: PdfImportDialogProps) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [page, setPage] = useState(1);
+  const [dpi, setDpi] = useState(DEFAULT_PDF_DPI);
+  const [preview, setPreview] = useState<string | null>(null); // Data URL of the current page
+  const [outputSize, setOutputSize] = useState<{ width: number; height: number } | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null); // The document itself could not be opened
+  const [pageError, setPageError] = useState<string | null>(null); // The chosen page failed to preview or import
+
+  // Open the document whenever a new file arrives
+  useEffect(() => {
+    setPdf(null);
+    setPage(1);
+    setPreview(null);
+    setError(null);
+    setPageError(null);
+    if (!file) return;
+    let cancelled = false;
+    let opened: PDFDocumentProxy | null = null;
+    openPdf(file)
+      .then((doc) => {
+        opened = doc;
+        if (cancelled) doc.destroy();
+        else setPdf(doc);
+      })
+      .catch((err) => { if (!cancelled) setError(err instanceof Error ? err.message : "Could not open the PDF."); });
+    return () => {
+      cancelled = true;
+      opened?.destroy();
+    };
+  }, [file]);
+
+  // Preview and output size of the chosen page
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    setPreview(null);
+    setPageError(null);
+    renderPdfPage(pdf, page, { maxWidth: PREVIEW_WIDTH })
+      .then((canvas) => { if (!cancelled) setPreview(canvas.toDataURL()); })
+      .catch((err) => {
+        console.error("PDF preview failed:", err);
+        if (!cancelled) setPageError(err instanceof Error ? err.message : "Could not render the page.");
+      });
+    getPdfPageSize(pdf, page, dpi)
+      .then((size) => { if (!cancelled) setOutputSize(size); })
+      .catch(() => { if (!cancelled) setOutputSize(null); });
+    return () => { cancelled = true; };
+  }, [pdf, page, dpi]);
+
+  const pageCount = pdf?.numPages ?? 0;
+  const goToPage = (value: number) => {
+    if (Number.isFinite(value)) setPage(Math.min(Math.max(1, Math.round(value)), Math.max(1, pageCount)));
+  };
+
+  const handleImport = () => {
+    if (!pdf || !file) return;
+    setIsRendering(true);
+    setPageError(null);
+    rasterizePdfPage(pdf, file.name, page, dpi)
+      .then((image) => onImport(image, { kind: "pdf", fileName: file.name, page, dpi }))
+      .catch((err) => setPageError(err instanceof Error ? err.message : "Could not render the page."))
+      .finally(() => setIsRendering(false));
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => { if (!open && !isRendering) onCancel(); }}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><FileText className="w-4 h-4" /> Import PDF Page</DialogTitle>
+          <DialogDescription className="truncate">{file?.name}</DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-center rounded-md border bg-muted/40 h-[260px] overflow-hidden">
+              {preview
+                ? <img src={preview} alt={`Page ${page}`} className="max-h-full max-w-full object-contain shadow-sm" />
+                : !pageError && <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />}
+            </div>
+            {pageError && <p className="text-xs text-destructive">{pageError}</p>}
+
+            <div className="flex items-end gap-3">
+              <div className="space-y-1.5 flex-1">
+                <Label htmlFor="pdf-page" className="text-xs font-medium">Page</Label>
+                <div className="flex items-center gap-1">
+                  <Button variant="outline" size="sm" className="h-9 w-9 p-0" onClick={() => goToPage(page - 1)} disabled={page <= 1}>
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Input
+                    id="pdf-page"
+                    type="number"
+                    min={1}
+                    max={pageCount || 1}
+                    value={page}
+                    onChange={(e) => goToPage(Number(e.target.value))}
+                    className="h-9 w-16 text-center"
+                  />
+                  <Button variant="outline" size="sm" className="h-9 w-9 p-0" onClick={() => goToPage(page + 1)} disabled={page >= pageCount}>
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                  <span className="text-xs text-muted-foreground ml-1 tabular-nums">of {pageCount || "…"}</span>
+                </div>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="pdf-dpi" className="text-xs font-medium">Resolution</Label>
+                <Select value={String(dpi)} onValueChange={(value) => setDpi(Number(value))}>
+                  <SelectTrigger id="pdf-dpi" className="h-9 w-[110px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PDF_DPI_OPTIONS.map((option) => (
+                      <SelectItem key={option} value={String(option)}>{option} DPI</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {outputSize && (
+              <p className="text-xs text-muted-foreground tabular-nums">Renders at {outputSize.width} × {outputSize.height} px. Higher resolutions count more pixels; compare charts at the same DPI.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isRendering}>Cancel</Button>
+          <Button onClick={handleImport} disabled={!pdf || isRendering || !!error}>
+            {isRendering && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />} Import Page
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
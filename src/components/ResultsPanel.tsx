@@ -1,22 +1,66 @@
-import { AnalysisResult, ChartProfile } from "../types";
+import { useEffect, useState } from "react";
+import { AnalysisResult, CanvasMode, ChartProfile, InkCluster, SelectionBox } from "../types";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Download, Lightbulb, AlertTriangle, AlertCircle } from "lucide-react";
-import { exportToJSON, exportToCSV } from "../utils/analysis";
+import { Download, Lightbulb, AlertTriangle, AlertCircle, Plus, ImageDown, FileText, Loader2 } from "lucide-react";
+import { exportToJSON, exportToCSV, generateSuggestions, compareToReference, getReferencesForChartType, generateHtmlReport, generateMarkdownReport } from "@/analysis";
 import { getVerdictText } from "../utils/benchmarks";
-import { generateSuggestions } from "../utils/assistant";
+import { canvasToPngBlob, downscaleCanvas, imageDataToCanvas, renderAnnotatedChart } from "../utils/annotatedExport";
+import { createPdfReport } from "../utils/pdfReport";
+import { ComparisonResult } from "@/types/comparison";
+import { InkIntegral } from "../utils/integralImage";
+import { useToast } from "@/hooks/use-toast";
 import { ComparisonPanel } from "./ComparisonPanel";
 
 interface ResultsPanelProps {
   result: AnalysisResult | null;
   selectedProfile: ChartProfile | null;
+  canvasMode: CanvasMode;
+  unclassifiedClusters: InkCluster[]; // Clusters not yet turned into selections
+  onCreateSelectionFromCluster: (cluster: InkCluster) => void;
+  onHighlightCluster: (cluster: InkCluster | null) => void;
+  imageData: ImageData | null; // Source pixels for the annotated PNG
+  selections: SelectionBox[];
+  inkIntegral: InkIntegral | null; // Ink map for the optional ink-mask tint
+  paintOwnership: Int32Array | null; // SVG paint-order owners, built for `selections`
 }
 
+const PDF_CHART_MAX_SIDE = 2000; // px; keeps the embedded chart sharp in print without bloating the PDF
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
 export function ResultsPanel({
   result,
   selectedProfile,
+  canvasMode,
+  unclassifiedClusters,
+  onCreateSelectionFromCluster,
+  onHighlightCluster,
+  imageData,
+  selections,
+  inkIntegral,
+  paintOwnership,
 }: ResultsPanelProps) {
+  const { toast } = useToast();
+  const [includeInkMask, setIncludeInkMask] = useState(false);
+  const [comparison, setComparison] = useState<ComparisonResult | null>(null); // Last comparison run
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+
+  // A comparison only holds for the result and reference library it was run against
+  useEffect(() => {
+    setComparison(null);
+  }, [result, selectedProfile, canvasMode]);
+
   const handleExport = (format: "json" | "csv") => {
     if (!result) return;
 
@@ -24,12 +68,77 @@ export function ResultsPanel({
     const blob = new Blob([content], {
       type: format === "json" ? "application/json" : "text/csv",
     });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `analysis-results.${format}`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `analysis-results.${format}`);
+  };
+
+  const renderAnnotated = (analysis: AnalysisResult, image: ImageData) => renderAnnotatedChart({
+    image,
+    selections,
+    result: analysis,
+    canvasMode,
+    inkIntegral: includeInkMask ? inkIntegral : null,
+    paintOwnership,
+  });
+
+  // Chart at full resolution with the layer outlines, labels and a legend
+  const handleExportPng = () => {
+    if (!result || !imageData) return;
+    try {
+      canvasToPngBlob(renderAnnotated(result, imageData))
+        .then((blob) => downloadBlob(blob, "analysis-annotated.png"))
+        .catch((error) => toast({ title: "Export failed", description: error.message, variant: "destructive" }));
+    } catch (error) {
+      console.error("Annotated export failed:", error);
+      toast({ title: "Export failed", description: error instanceof Error ? error.message : "Could not render the image.", variant: "destructive" });
+    }
+  };
+
+  const reportFailed = (error: unknown) => {
+    console.error("Report export failed:", error);
+    toast({ title: "Export failed", description: error instanceof Error ? error.message : "Could not build the report.", variant: "destructive" });
+  };
+
+  // Self-contained report; without a comparison run, compares against the profile's first reference
+  const handleExportReport = (format: "html" | "md") => {
+    if (!result) return;
+    try {
+      const fallbackReference = selectedProfile ? getReferencesForChartType(selectedProfile.id, canvasMode)[0] : undefined;
+      const input = {
+        result,
+        profile: selectedProfile,
+        comparison: comparison ?? (fallbackReference ? compareToReference(result, fallbackReference) : null),
+        imageUrl: imageData ? imageDataToCanvas(imageData).toDataURL("image/png") : null,
+        annotatedUrl: imageData ? renderAnnotated(result, imageData).toDataURL("image/png") : null,
+        imageSize: { width: imageData?.width ?? 0, height: imageData?.height ?? 0 },
+        generatedAt: new Date(),
+      };
+      const content = format === "html" ? generateHtmlReport(input) : generateMarkdownReport(input);
+      downloadBlob(
+        new Blob([content], { type: format === "html" ? "text/html" : "text/markdown" }),
+        `analysis-report.${format}`
+      );
+    } catch (error) {
+      reportFailed(error);
+    }
+  };
+
+  // Printable report: the annotated chart, and the comparison only if one was run
+  const handleExportPdf = () => {
+    if (!result) return;
+    setIsExportingPdf(true);
+    Promise.resolve()
+      .then(() => createPdfReport({
+        result,
+        profile: selectedProfile,
+        comparison,
+        imageUrl: null,
+        annotatedUrl: imageData ? downscaleCanvas(renderAnnotated(result, imageData), PDF_CHART_MAX_SIDE).toDataURL("image/png") : null,
+        imageSize: { width: imageData?.width ?? 0, height: imageData?.height ?? 0 },
+        generatedAt: new Date(),
+      }))
+      .then((blob) => downloadBlob(blob, "analysis-report.pdf"))
+      .catch(reportFailed)
+      .finally(() => setIsExportingPdf(false));
   };
 
   if (!result) {
@@ -145,11 +254,64 @@ export function ResultsPanel({
                     {layer.isData ? "Data" : "Non-Data"}
                   </span>
                 </div>
-                <div className="text-sm text-muted-foreground">
+                <div className="text-sm text-muted-foreground text-right">
                   {layer.inkPixels.toLocaleString()} px
+                  {layer.inkCoverage !== undefined && (
+                    <div className="text-xs tabular-nums" title="Fractional ink coverage (anti-aliasing aware)">
+                      ≈ {Math.round(layer.inkCoverage).toLocaleString()} px coverage
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
+
+            {/* Unclassified ink: ink outside every selection, grouped into clusters */}
+            {result.unclassified.inkPixels > 0 && (
+              <div className="p-2 rounded border border-dashed border-red-500/60">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded border border-dashed border-red-500" />
+                    <span className="text-sm font-medium">Unclassified Ink</span>
+                    <span className="text-xs px-2 py-0.5 rounded bg-red-500/20 text-red-700 dark:text-red-400">
+                      {result.unclassified.clusterCount.toLocaleString()} clusters
+                    </span>
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {result.unclassified.inkPixels.toLocaleString()} px
+                  </div>
+                </div>
+                {unclassifiedClusters.length > 0 && (
+                  <div className="mt-2 space-y-1 max-h-40 overflow-y-auto" onMouseLeave={() => onHighlightCluster(null)}>
+                    {unclassifiedClusters.map((cluster) => (
+                      <div
+                        key={`${cluster.x}-${cluster.y}-${cluster.width}-${cluster.height}`}
+                        className="flex items-center justify-between pl-5 text-xs rounded hover:bg-muted/50"
+                        onMouseEnter={() => onHighlightCluster(cluster)}
+                      >
+                        <span className="text-muted-foreground tabular-nums">
+                          {cluster.width}×{cluster.height} at ({cluster.x}, {cluster.y}) · {cluster.inkPixels.toLocaleString()} px
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => onCreateSelectionFromCluster(cluster)}
+                          title="Create a selection from this cluster"
+                        >
+                          <Plus className="w-3 h-3 mr-1" />
+                          Select
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {result.unclassified.clusterCount > result.unclassified.clusters.length && (
+                  <p className="mt-1 pl-5 text-xs text-muted-foreground">
+                    Listing the {result.unclassified.clusters.length} largest clusters.
+                  </p>
+                )}
+              </div>
+            )}
           </div>
         </Card>
 
@@ -181,6 +343,28 @@ export function ResultsPanel({
                 {result.totalNonDataPixels.toLocaleString()}
               </span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Unclassified Ink Pixels</span>
+              <span className="font-medium">
+                {result.unclassified.inkPixels.toLocaleString()}
+              </span>
+            </div>
+            {result.coverage && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Ink Coverage (Fractional)</span>
+                  <span className="font-medium">
+                    {Math.round(result.coverage.totalInkCoverage).toLocaleString()}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Coverage Efficiency</span>
+                  <span className="font-medium">
+                    {(result.coverage.efficiencyRatio * 100).toFixed(2)}%
+                  </span>
+                </div>
+              </>
+            )}
           </div>
         </Card>
 
@@ -202,11 +386,66 @@ export function ResultsPanel({
             <Download className="w-4 h-4 mr-2" />
             Export CSV
           </Button>
+          <Button
+            variant="outline"
+            onClick={handleExportPng}
+            disabled={!imageData}
+            className="flex-1"
+            title="Chart with layer outlines, labels and a legend, at the original resolution"
+          >
+            <ImageDown className="w-4 h-4 mr-2" />
+            Export PNG
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleExportReport("html")}
+            className="flex-1"
+            title="Single HTML file with the chart, overlay, layers, verdict, suggestions and comparison"
+          >
+            <FileText className="w-4 h-4 mr-2" />
+            HTML
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleExportReport("md")}
+            className="flex-1"
+            title="The same report as Markdown"
+          >
+            <FileText className="w-4 h-4 mr-2" />
+            Markdown
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleExportPdf}
+            disabled={isExportingPdf}
+            className="flex-1"
+            title="Printable PDF with the annotated chart, layers, summary, verdict, suggestions and the comparison you ran"
+          >
+            {isExportingPdf ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileText className="w-4 h-4 mr-2" />}
+            PDF
+          </Button>
+        </div>
+        <div className="flex items-center justify-between px-1">
+          <Label htmlFor="png-ink-mask" className="text-xs text-muted-foreground">Tint ink pixels by layer in the PNG and reports</Label>
+          <Switch
+            id="png-ink-mask"
+            checked={includeInkMask && !!inkIntegral}
+            onCheckedChange={setIncludeInkMask}
+            disabled={!inkIntegral}
+          />
         </div>
       </TabsContent>
 
       <TabsContent value="comparison" className="mt-0">
-        <ComparisonPanel result={result} selectedProfile={selectedProfile} />
+        <ComparisonPanel
+          result={result}
+          selectedProfile={selectedProfile}
+          canvasMode={canvasMode}
+          comparison={comparison}
+          onComparisonChange={setComparison}
+        />
       </TabsContent>
     </Tabs>
   );
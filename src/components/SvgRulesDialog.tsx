@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { SvgClassificationRule, defaultSvgClassificationRules, parseSvgClassificationRules } from "@/utils/svgImport";
+
+interface SvgRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rules: SvgClassificationRule[];
+  onSave: (rules: SvgClassificationRule[]) => void;
+}
+
+const formatRules = (rules: SvgClassificationRule[]): string =>
+  `[\n${rules.map(rule => `  ${JSON.stringify(rule)}`).join(",\n")}\n]`;
+
+export function SvgRulesDialog({ open, onOpenChange, rules, onSave }: SvgRulesDialogProps) {
+  const [text, setText] = useState(() => formatRules(rules));
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved rules each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setText(formatRules(rules));
+    setError(null);
+  }, [open, rules]);
+
+  const handleSave = () => {
+    try {
+      onSave(parseSvgClassificationRules(JSON.parse(text)));
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof SyntaxError ? `Invalid JSON: ${err.message}` : err instanceof Error ? err.message : "Invalid rules.");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>SVG Classification Rules</DialogTitle>
+          <DialogDescription>
+            Applied to SVG uploads in order; the first rule whose pattern (a case-insensitive regular expression) matches an element's
+            {" "}<code>class</code>, <code>id</code>, <code>gid</code> or <code>tag</code> assigns it to the first listed component the selected chart type defines.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={text}
+          onChange={(e) => { setText(e.target.value); setError(null); }}
+          spellCheck={false}
+          className="h-[50vh] font-mono text-xs"
+        />
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <DialogFooter className="flex-row items-center gap-2 sm:justify-between">
+          <Button variant="ghost" size="sm" className="h-9" onClick={() => { setText(formatRules(defaultSvgClassificationRules)); setError(null); }}>
+            <RotateCcw className="w-4 h-4 mr-1.5" /> Reset to Defaults
+          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" className="h-9" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button size="sm" className="h-9" onClick={handleSave}>Save Rules</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,20 @@
-import { Upload, Play, Pipette, Wand2, MousePointer2, Download, FolderOpen, Undo2, Redo2, Settings2, Trash2 } from "lucide-react";
+import { Upload, Play, Pipette, Wand2, MousePointer2, Download, FolderOpen, Package, Undo2, Redo2, Settings2, Trash2, Pentagon, Lasso, X, Check, Layers } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { ChartProfile, ComponentDefinition } from "@/types";
+import { BackgroundMode, CanvasMode, ChartProfile, ColorMetric, ComponentDefinition, ToolMode } from "@/types";
 import { chartProfiles } from "@/utils/benchmarks";
+import { colorMetricLabels, colorMetricScales } from "@/utils/color";
+import { backgroundModeLabels } from "@/utils/background";
+import { canvasModeLabels } from "@/utils/canvasMode";
+import type { BackgroundEstimate } from "@/utils/backgroundDetection";
 import { useState } from "react";
 
 interface ToolbarProps {
@@ -17,17 +23,36 @@ interface ToolbarProps {
   hasImage: boolean;
   hasSelections: boolean;
   isAnalyzing: boolean;
-  toolMode: "select" | "eyedropper" | "magicwand";
-  onToolModeChange: (mode: "select" | "eyedropper" | "magicwand") => void;
+  analysisProgress: number;
+  onCancelAnalysis: () => void;
+  toolMode: ToolMode;
+  onToolModeChange: (mode: ToolMode) => void;
   onExportSelections: () => void;
-  onImportSelections: (file: File) => void;
+  onExportBundle: () => void;
+  onOpenBatch: () => void;
+  onImportSelections: (file: File) => void; // Session (.json) or project bundle (.zip)
   onUndo: () => void;
   onRedo: () => void;
   canUndo: boolean;
   canRedo: boolean;
   backgroundColor: { r: number; g: number; b: number };
+  backgroundEstimate: BackgroundEstimate | null;
+  onAcceptBackgroundEstimate: () => void;
+  onDismissBackgroundEstimate: () => void;
   inkThreshold: number;
   onInkThresholdChange: (value: number) => void;
+  canvasMode: CanvasMode;
+  onCanvasModeChange: (mode: CanvasMode) => void;
+  colorMetric: ColorMetric;
+  onColorMetricChange: (metric: ColorMetric) => void;
+  backgroundMode: BackgroundMode;
+  onBackgroundModeChange: (mode: BackgroundMode) => void;
+  fractionalCoverage: boolean;
+  onFractionalCoverageChange: (enabled: boolean) => void;
+  isSvgImage: boolean;
+  svgPaintOrder: boolean;
+  onSvgPaintOrderChange: (enabled: boolean) => void;
+  onEditSvgRules: () => void;
   magicWandTolerance: number;
   onMagicWandToleranceChange: (value: number) => void;
   selectedProfile: ChartProfile | null;
@@ -43,17 +68,36 @@ export function Toolbar({
   hasImage,
   hasSelections,
   isAnalyzing,
+  analysisProgress,
+  onCancelAnalysis,
   toolMode,
   onToolModeChange,
   onExportSelections,
+  onExportBundle,
+  onOpenBatch,
   onImportSelections,
   onUndo,
   onRedo,
   canUndo,
   canRedo,
   backgroundColor,
+  backgroundEstimate,
+  onAcceptBackgroundEstimate,
+  onDismissBackgroundEstimate,
   inkThreshold,
   onInkThresholdChange,
+  canvasMode,
+  onCanvasModeChange,
+  colorMetric,
+  onColorMetricChange,
+  backgroundMode,
+  onBackgroundModeChange,
+  fractionalCoverage,
+  onFractionalCoverageChange,
+  isSvgImage,
+  svgPaintOrder,
+  onSvgPaintOrderChange,
+  onEditSvgRules,
   magicWandTolerance,
   onMagicWandToleranceChange,
   selectedProfile,
@@ -64,19 +108,20 @@ export function Toolbar({
 }: ToolbarProps) {
 
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const metricScale = colorMetricScales[colorMetric]; // Threshold sliders use the colour model's unit
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && file.type.startsWith("image/")) {
-      onImageUpload(file);
+    if (file && (file.type.startsWith("image/") || file.type === "application/pdf")) {
+      onImageUpload(file); // PDFs open a page picker first
     }
     e.target.value = ""; // Reset file input
   };
 
   const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && file.type === "application/json") {
-      onImportSelections(file);
+    if (file) {
+      onImportSelections(file); // Index tells sessions and bundles apart
     }
     e.target.value = ""; // Reset file input
   };
@@ -129,7 +174,7 @@ export function Toolbar({
                          <label htmlFor="image-upload" className="cursor-pointer"> {/* Use htmlFor */}
                             <Input
                                 type="file"
-                                accept="image/*"
+                                accept="image/*,application/pdf"
                                 onChange={handleFileChange}
                                 className="hidden"
                                 id="image-upload"
@@ -142,7 +187,7 @@ export function Toolbar({
                             </Button>
                         </label>
                     </TooltipTrigger>
-                    <TooltipContent>Upload Chart Image</TooltipContent>
+                    <TooltipContent>Upload Chart Image, SVG or PDF Page</TooltipContent>
                 </Tooltip>
 
                 {/* Import */}
@@ -151,7 +196,7 @@ export function Toolbar({
                          <label htmlFor="import-selections" className="cursor-pointer"> {/* Use htmlFor */}
                             <Input
                                 type="file"
-                                accept="application/json"
+                                accept=".json,.zip,application/json,application/zip"
                                 onChange={handleImportChange}
                                 className="hidden"
                                 id="import-selections"
@@ -164,7 +209,6 @@ export function Toolbar({
                                 asChild
                                 variant="outline"
                                 size="sm"
-                                disabled={!hasImage} // Keep disabled logic for import relevant to image context
                                 className="h-9 pointer-events-none" // Prevent button click
                             >
                                 <span className="flex items-center gap-1.5">
@@ -173,7 +217,7 @@ export function Toolbar({
                             </Button>
                         </label>
                      </TooltipTrigger>
-                     <TooltipContent>Import Session (.json)</TooltipContent>
+                     <TooltipContent>Import Session (.json) or Project (.zip)</TooltipContent>
                 </Tooltip>
 
                 {/* Export */}
@@ -192,6 +236,38 @@ export function Toolbar({
                     <TooltipContent>Export Session (.json)</TooltipContent>
                  </Tooltip>
 
+                {/* Export Project Bundle */}
+                 <Tooltip>
+                    <TooltipTrigger asChild>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={onExportBundle}
+                            disabled={!hasImage} // The bundle carries the image
+                            className="h-9"
+                        >
+                            <Package className="w-4 h-4" /> <span className="hidden sm:inline ml-1.5">Project</span>
+                        </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Export Project with Image and Results (.zip)</TooltipContent>
+                 </Tooltip>
+
+                {/* Batch */}
+                 <Tooltip>
+                    <TooltipTrigger asChild>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={onOpenBatch}
+                            disabled={!hasImage || !hasSelections} // The current layout is the template
+                            className="h-9"
+                        >
+                            <Layers className="w-4 h-4" /> <span className="hidden sm:inline ml-1.5">Batch</span>
+                        </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Analyze More Charts with This Layout</TooltipContent>
+                 </Tooltip>
+
                  <Separator orientation="vertical" className="h-6 mx-1 hidden sm:block" />
 
                 {/* Undo/Redo */}
@@ -230,7 +306,7 @@ export function Toolbar({
                                 <Pipette className="w-4 h-4" />
                             </Button>
                         </TooltipTrigger>
-                         <TooltipContent>Eyedropper (Sample Background)</TooltipContent>
+                         <TooltipContent>Eyedropper (Sample Background, Alt+Click for a Selection's Background)</TooltipContent>
                     </Tooltip>
                      <Tooltip>
                         <TooltipTrigger asChild>
@@ -240,6 +316,22 @@ export function Toolbar({
                         </TooltipTrigger>
                         <TooltipContent>Magic Wand (Auto-Select)</TooltipContent>
                     </Tooltip>
+                    <Tooltip>
+                        <TooltipTrigger asChild>
+                            <Button variant={toolMode === "polygon" ? "secondary" : "ghost"} size="sm" onClick={() => onToolModeChange("polygon")} disabled={!hasImage} className="h-8 w-8 p-0">
+                                <Pentagon className="w-4 h-4" />
+                            </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>Polygon (Click vertices, double-click or Enter to close)</TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                        <TooltipTrigger asChild>
+                            <Button variant={toolMode === "lasso" ? "secondary" : "ghost"} size="sm" onClick={() => onToolModeChange("lasso")} disabled={!hasImage} className="h-8 w-8 p-0">
+                                <Lasso className="w-4 h-4" />
+                            </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>Lasso (Freehand Selection)</TooltipContent>
+                    </Tooltip>
                 </div>
 
                  {/* Settings Popover */}
@@ -256,19 +348,88 @@ export function Toolbar({
                     </Tooltip>
                     <PopoverContent className="w-64 p-4" sideOffset={8}>
                         <div className="space-y-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="canvas-mode" className="text-xs font-medium">Canvas</Label>
+                                <Select value={canvasMode} onValueChange={(value) => onCanvasModeChange(value as CanvasMode)}>
+                                    <SelectTrigger id="canvas-mode" className="h-8 text-xs">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(canvasModeLabels) as CanvasMode[]).map((mode) => (
+                                            <SelectItem key={mode} value={mode} className="text-xs">
+                                                {canvasModeLabels[mode]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <p className="text-xs text-muted-foreground">Dark Canvas is for light ink on dark themes: it sets a dark default background, shows transparent pixels against it and uses dark-canvas references.</p>
+                            </div>
                             <div className="space-y-2">
                                 <Label htmlFor="ink-threshold" className="text-xs font-medium">Ink Sensitivity</Label>
                                 <div className="flex items-center gap-2">
-                                    <Slider id="ink-threshold" min={1} max={100} step={1} value={[inkThreshold]} onValueChange={handleSliderChange(onInkThresholdChange)} className="flex-1"/>
-                                    <span className="text-xs font-mono w-8 text-right tabular-nums">{inkThreshold}</span>
+                                    <Slider id="ink-threshold" min={metricScale.min} max={metricScale.max} step={metricScale.step} value={[inkThreshold]} onValueChange={handleSliderChange(onInkThresholdChange)} className="flex-1"/>
+                                    <span className="text-xs font-mono w-16 text-right tabular-nums whitespace-nowrap">{inkThreshold} {metricScale.unit}</span>
                                 </div>
                                 <p className="text-xs text-muted-foreground">Lower = more sensitive to slight color changes vs background.</p>
                             </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="color-metric" className="text-xs font-medium">Color Difference</Label>
+                                <Select value={colorMetric} onValueChange={(value) => onColorMetricChange(value as ColorMetric)}>
+                                    <SelectTrigger id="color-metric" className="h-8 text-xs">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(colorMetricLabels) as ColorMetric[]).map((metric) => (
+                                            <SelectItem key={metric} value={metric} className="text-xs">
+                                                {colorMetricLabels[metric]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <p className="text-xs text-muted-foreground">Perceptual models (ΔE) treat light gridlines of any hue alike. Applies to ink detection and the Magic Wand; switching converts both thresholds to the new unit.</p>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="background-mode" className="text-xs font-medium">Background Model</Label>
+                                <Select value={backgroundMode} onValueChange={(value) => onBackgroundModeChange(value as BackgroundMode)}>
+                                    <SelectTrigger id="background-mode" className="h-8 text-xs">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(backgroundModeLabels) as BackgroundMode[]).map((mode) => (
+                                            <SelectItem key={mode} value={mode} className="text-xs">
+                                                {backgroundModeLabels[mode]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <p className="text-xs text-muted-foreground">Gradient Fit follows smooth backdrops; Sampled Estimate also follows shaded panels and bands. Alt+click with the Eyedropper to give one selection its own background.</p>
+                            </div>
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <Label htmlFor="fractional-coverage" className="text-xs font-medium">Fractional Coverage</Label>
+                                    <Switch id="fractional-coverage" checked={fractionalCoverage} onCheckedChange={onFractionalCoverageChange} />
+                                </div>
+                                <p className="text-xs text-muted-foreground">Also count faint anti-aliased pixels as partial ink, reported next to the pixel counts.</p>
+                            </div>
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <Label htmlFor="svg-paint-order" className="text-xs font-medium">SVG Paint Order</Label>
+                                    <Switch id="svg-paint-order" checked={svgPaintOrder} onCheckedChange={onSvgPaintOrderChange} disabled={!isSvgImage} />
+                                </div>
+                                <p className="text-xs text-muted-foreground">For SVG uploads, layers created from elements own exactly the ink their elements paint, with later elements on top. Drawn boxes fill in the rest.</p>
+                            </div>
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <Label className="text-xs font-medium">SVG Classification Rules</Label>
+                                    <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => { setIsSettingsOpen(false); onEditSvgRules(); }}>Edit</Button>
+                                </div>
+                                <p className="text-xs text-muted-foreground">Which classes, ids and tags map SVG elements to the chart type's components on upload.</p>
+                            </div>
                             <div className="space-y-2">
                                 <Label htmlFor="wand-tolerance" className="text-xs font-medium">Wand Tolerance</Label>
                                 <div className="flex items-center gap-2">
-                                    <Slider id="wand-tolerance" min={1} max={100} step={1} value={[magicWandTolerance]} onValueChange={handleSliderChange(onMagicWandToleranceChange)} className="flex-1"/>
-                                    <span className="text-xs font-mono w-8 text-right tabular-nums">{magicWandTolerance}</span>
+                                    <Slider id="wand-tolerance" min={metricScale.min} max={metricScale.max} step={metricScale.step} value={[magicWandTolerance]} onValueChange={handleSliderChange(onMagicWandToleranceChange)} className="flex-1"/>
+                                    <span className="text-xs font-mono w-16 text-right tabular-nums whitespace-nowrap">{magicWandTolerance} {metricScale.unit}</span>
                                 </div>
                                 <p className="text-xs text-muted-foreground">Color similarity range for Magic Wand tool.</p>
                             </div>
@@ -285,6 +446,41 @@ export function Toolbar({
                          <TooltipContent>{`Current Background: rgb(${backgroundColor.r}, ${backgroundColor.g}, ${backgroundColor.b})`}</TooltipContent>
                     </Tooltip>
                  )}
+
+                {/* Detected Background Proposal: accept, pick another with the eyedropper, or keep the current one */}
+                {hasImage && backgroundEstimate && (
+                    <div className="flex items-center gap-1 h-9 px-1.5 rounded border border-dashed border-border">
+                        <Tooltip>
+                            <TooltipTrigger asChild>
+                                <div className="flex items-center gap-1.5">
+                                    <div className="w-5 h-5 rounded border border-border shadow-sm flex-shrink-0" style={{ backgroundColor: `rgb(${backgroundEstimate.color.r}, ${backgroundEstimate.color.g}, ${backgroundEstimate.color.b})` }} />
+                                    <span className="text-xs text-muted-foreground tabular-nums">{Math.round(backgroundEstimate.confidence * 100)}%</span>
+                                </div>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                                {`Detected Background: rgb(${backgroundEstimate.color.r}, ${backgroundEstimate.color.g}, ${backgroundEstimate.color.b}) · ${Math.round(backgroundEstimate.borderCoverage * 100)}% of border, ${Math.round(backgroundEstimate.imageCoverage * 100)}% of image`}
+                            </TooltipContent>
+                        </Tooltip>
+                        <Tooltip>
+                            <TooltipTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onAcceptBackgroundEstimate}><Check className="w-3.5 h-3.5" /></Button>
+                            </TooltipTrigger>
+                            <TooltipContent>Use Detected Background</TooltipContent>
+                        </Tooltip>
+                        <Tooltip>
+                            <TooltipTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onToolModeChange("eyedropper")}><Pipette className="w-3.5 h-3.5" /></Button>
+                            </TooltipTrigger>
+                            <TooltipContent>Pick Background Instead</TooltipContent>
+                        </Tooltip>
+                        <Tooltip>
+                            <TooltipTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onDismissBackgroundEstimate}><X className="w-3.5 h-3.5" /></Button>
+                            </TooltipTrigger>
+                            <TooltipContent>Keep Current Background</TooltipContent>
+                        </Tooltip>
+                    </div>
+                 )}
             </TooltipProvider> {/* End TooltipProvider */}
           </div>
 
@@ -293,6 +489,15 @@ export function Toolbar({
              <Button variant="outline" size="sm" onClick={onClearAll} className="h-9 text-destructive hover:bg-destructive/10 hover:text-destructive border-destructive/50">
                 <Trash2 className="w-4 h-4 mr-1.5" /> Clear All
              </Button>
+            {isAnalyzing && (
+              <div className="flex items-center gap-2">
+                <Progress value={analysisProgress * 100} className="w-24 h-2" />
+                <span className="text-xs font-mono w-9 text-right tabular-nums">{Math.round(analysisProgress * 100)}%</span>
+                <Button variant="outline" size="sm" onClick={onCancelAnalysis} className="h-9">
+                  <X className="w-4 h-4 mr-1.5" /> Cancel
+                </Button>
+              </div>
+            )}
             <Button onClick={onRunAnalysis} disabled={!hasImage || !hasSelections || isAnalyzing} className="min-w-[120px] h-9">
               <Play className="w-4 h-4 mr-2" />
               {isAnalyzing ? "Analyzing..." : "Analyze"}
@@ -1,39 +1,127 @@
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useCallback, useEffect, useRef, useMemo } from "react";
 import { Toolbar } from "../components/Toolbar";
 import { ImageCanvas } from "../components/ImageCanvas";
 import { ClassificationTable } from "../components/ClassificationTable";
 import { ResultsPanel } from "../components/ResultsPanel";
-import { SelectionBox, AnalysisResult, ChartProfile, ComponentDefinition, ImageData as AppImageData } from "../types"; // Renamed ImageData to avoid conflict
-import { analyzeImage } from "../utils/analysis";
+import { PdfImportDialog } from "../components/PdfImportDialog";
+import { BatchDialog } from "../components/BatchDialog";
+import { SvgRulesDialog } from "../components/SvgRulesDialog";
+import { SelectionBox, AnalysisResult, ChartProfile, ComponentDefinition, ToolMode, ColorMetric, InkCluster, BackgroundMode, CanvasMode } from "../types";
+import { ImageData as AppImageData, ImageSource, SessionData } from "../types/app"; // Renamed ImageData to avoid conflict
+import { analyzeImageInWorker, buildInkIntegralInWorker, isAbortError } from "../utils/analysisWorker";
+import { InkIntegral } from "../utils/integralImage";
+import { BackgroundEstimate, chartProfiles, detectBackgroundColor } from "@/analysis";
+import { canvasModeBackgrounds, isCanvasModeBackground } from "../utils/canvasMode";
+import { colorMetricScales, convertThreshold } from "../utils/color";
+import { collectUnusedImages, loadStoredImage, storeImage } from "../utils/imageStore";
+import { createProjectBundle, isProjectBundleFile, readProjectBundle } from "../utils/projectBundle";
+import { SESSION_VERSION, SessionValidationError, parseSession } from "../utils/session";
+import {
+  SVG_MIME_TYPE,
+  SvgClassificationRule,
+  classifySvgElements,
+  defaultSvgClassificationRules,
+  isSvgFile,
+  parseSvgClassificationRules,
+  prepareSvgFile,
+} from "../utils/svgImport";
+import { buildSvgPaintOwnership, hasSvgElementSelections } from "../utils/svgPaintOrder";
+import { isPdfFile } from "../utils/pdfImport";
+import type { BatchAnalysisSettings } from "../utils/batch";
 import { useToast } from "@/hooks/use-toast";
-import { chartProfiles } from "../utils/benchmarks";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 
 const STORAGE_KEY = "data-ink-calculator-session";
-const DEFAULT_INK_THRESHOLD = 30;
-const DEFAULT_WAND_TOLERANCE = 30;
+const SVG_RULES_STORAGE_KEY = "data-ink-calculator-svg-rules"; // Edited SVG classification rules; kept across images
+const DEFAULT_COLOR_METRIC: ColorMetric = "rgb";
+const DEFAULT_INK_THRESHOLD = colorMetricScales[DEFAULT_COLOR_METRIC].defaultThreshold;
+const DEFAULT_WAND_TOLERANCE = colorMetricScales[DEFAULT_COLOR_METRIC].defaultThreshold;
+const DEFAULT_BACKGROUND_MODE: BackgroundMode = "uniform";
+const DEFAULT_FRACTIONAL_COVERAGE = false;
+const DEFAULT_CANVAS_MODE: CanvasMode = "light";
+const DEFAULT_SVG_PAINT_ORDER = true;
+const NO_SELECTIONS: SelectionBox[] = []; // Stable empty list for effect dependencies
+
+// Saves a blob through a temporary download link
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Saved SVG classification rules, or the defaults when none (or invalid ones) are stored
+const loadSvgRules = (): SvgClassificationRule[] => {
+  const saved = localStorage.getItem(SVG_RULES_STORAGE_KEY);
+  if (!saved) return defaultSvgClassificationRules;
+  try {
+    return parseSvgClassificationRules(JSON.parse(saved));
+  } catch (error) {
+    console.error("Discarding stored SVG rules:", error);
+    localStorage.removeItem(SVG_RULES_STORAGE_KEY);
+    return defaultSvgClassificationRules;
+  }
+};
 
 const Index = () => {
   const { toast } = useToast();
 
   // Image state
   const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [imageHash, setImageHash] = useState<string | null>(null); // Key of the image bytes in IndexedDB (see imageStore)
+  const imageUrlRef = useRef<string | null>(null); // Latest image URL, for async callbacks
+  const isSessionRestored = useRef(false); // Don't overwrite the saved session before it has been read
   const [imageData, setImageData] = useState<ImageData | null>(null); // Actual ImageData
   const [appImageData, setAppImageData] = useState<AppImageData | null>(null); // App's ImageData type
   const [imageDimensions, setImageDimensions] = useState({ width: 0, height: 0 });
   const [isImageLoading, setIsImageLoading] = useState(false); // New loading state
+  const [svgText, setSvgText] = useState<string | null>(null); // Source of an SVG image, for paint-order analysis
+  const [imageSource, setImageSource] = useState<ImageSource | null>(null); // PDF page and DPI the image was rendered from
+  const [pendingPdf, setPendingPdf] = useState<File | null>(null); // PDF waiting for a page choice
+  const [isDraggingFile, setIsDraggingFile] = useState(false); // A file is dragged over the page
+  const [pendingReplacement, setPendingReplacement] = useState<File | null>(null); // Pasted/dropped image waiting for confirmation
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
 
   // Selection and analysis state
   const [selections, setSelections] = useState<SelectionBox[]>([]);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState(0); // 0-1, fed by worker row progress
+  const analysisAbortRef = useRef<AbortController | null>(null); // Aborts the in-flight worker run
+  const [inkIntegral, setInkIntegral] = useState<InkIntegral | null>(null); // Summed-area table for live stats
+  const [svgPaintOwnership, setSvgPaintOwnership] = useState<{ selections: SelectionBox[]; map: Int32Array } | null>(null); // From the last paint-order analysis
+  const [highlightedCluster, setHighlightedCluster] = useState<InkCluster | null>(null); // Hovered in the results panel
 
   // Tool state
-  const [toolMode, setToolMode] = useState<"select" | "eyedropper" | "magicwand">("select");
-  const [backgroundColor, setBackgroundColor] = useState({ r: 255, g: 255, b: 255 });
+  const [toolMode, setToolMode] = useState<ToolMode>("select");
+  const [canvasMode, setCanvasMode] = useState<CanvasMode>(DEFAULT_CANVAS_MODE); // Light or dark chart canvas
+  const canvasModeRef = useRef(canvasMode); // Latest mode, read on image load without reloading the image
+  const [backgroundColor, setBackgroundColor] = useState(canvasModeBackgrounds[DEFAULT_CANVAS_MODE]);
+  const [backgroundEstimate, setBackgroundEstimate] = useState<BackgroundEstimate | null>(null); // Detected on load, awaiting accept/dismiss
+  const backgroundColorRef = useRef(backgroundColor); // Latest background, read on image load without reloading the image
 
   // Thresholds State
   const [inkThreshold, setInkThreshold] = useState(DEFAULT_INK_THRESHOLD);
   const [magicWandTolerance, setMagicWandTolerance] = useState(DEFAULT_WAND_TOLERANCE);
+  const [colorMetric, setColorMetric] = useState<ColorMetric>(DEFAULT_COLOR_METRIC);
+  const [backgroundMode, setBackgroundMode] = useState<BackgroundMode>(DEFAULT_BACKGROUND_MODE);
+  const [fractionalCoverage, setFractionalCoverage] = useState(DEFAULT_FRACTIONAL_COVERAGE);
+  const [svgPaintOrder, setSvgPaintOrder] = useState(DEFAULT_SVG_PAINT_ORDER);
+  const [svgRules, setSvgRules] = useState<SvgClassificationRule[]>(loadSvgRules);
+  const [isSvgRulesOpen, setIsSvgRulesOpen] = useState(false);
 
   // Profile and component state
   const [selectedProfile, setSelectedProfile] = useState<ChartProfile | null>(chartProfiles[0]);
@@ -66,50 +154,76 @@ const Index = () => {
     }
   }, [historyIndex, history]); // Dependencies
 
+  useEffect(() => {
+    imageUrlRef.current = imageUrl;
+  }, [imageUrl]);
+
+  useEffect(() => {
+    backgroundColorRef.current = backgroundColor;
+  }, [backgroundColor]);
+
+  useEffect(() => {
+    canvasModeRef.current = canvasMode;
+  }, [canvasMode]);
+
   // Save to localStorage whenever relevant state changes
   useEffect(() => {
+    if (!isSessionRestored.current) return;
     if (imageUrl) {
       const session = {
+        version: SESSION_VERSION, // Restored through parseSession, like imported files
         imageUrl,
+        imageHash, // blob: URLs die on reload; the hash finds the persisted bytes
+        imageDimensions,
         selections,
         backgroundColor,
         selectedProfileId: selectedProfile?.id,
         inkThreshold,
         magicWandTolerance,
+        colorMetric,
+        backgroundMode,
+        fractionalCoverage,
+        canvasMode,
+        svgPaintOrder,
+        imageSource,
       };
       localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
     } else {
       localStorage.removeItem(STORAGE_KEY);
     }
-  }, [imageUrl, selections, backgroundColor, selectedProfile, inkThreshold, magicWandTolerance]);
+  }, [imageUrl, imageHash, imageDimensions, selections, backgroundColor, selectedProfile, inkThreshold, magicWandTolerance, colorMetric, backgroundMode, fractionalCoverage, canvasMode, svgPaintOrder, imageSource]);
 
   // Load from localStorage on mount
   useEffect(() => {
     const saved = localStorage.getItem(STORAGE_KEY);
     if (saved) {
       try {
-        const session = JSON.parse(saved);
-        if (session.imageUrl) {
-          if (session.backgroundColor) setBackgroundColor(session.backgroundColor);
+        const stored = JSON.parse(saved);
+        const imageHash: string | null = typeof stored?.imageHash === "string" ? stored.imageHash : null; // Autosave only, not part of the session schema
+        // Migrated and validated like an imported file; older autosaves carried no dimensions (the image provides them)
+        const session = parseSession({ imageDimensions: { width: 0, height: 0 }, ...stored });
+        if (session.imageUrl || imageHash) {
+          setBackgroundColor(session.backgroundColor);
           if (session.selectedProfileId) {
             const profile = chartProfiles.find(p => p.id === session.selectedProfileId);
             if (profile) setSelectedProfile(profile);
           }
-          setInkThreshold(session.inkThreshold ?? DEFAULT_INK_THRESHOLD);
-          setMagicWandTolerance(session.magicWandTolerance ?? DEFAULT_WAND_TOLERANCE);
+          setInkThreshold(session.inkThreshold);
+          setMagicWandTolerance(session.magicWandTolerance);
+          setColorMetric(session.colorMetric);
+          setBackgroundMode(session.backgroundMode);
+          setFractionalCoverage(session.fractionalCoverage);
+          setCanvasMode(session.canvasMode);
+          setSvgPaintOrder(session.svgPaintOrder);
+          setImageSource(session.imageSource ?? null);
 
           const loadImage = (url: string) => {
              setImageUrl(url);
+             setImageHash(imageHash);
              setIsImageLoading(true);
-             if (session.selections && Array.isArray(session.selections)) {
-                 setSelections(session.selections);
-                 setHistory([session.selections]); // Initialize history correctly
-                 setHistoryIndex(0);
-             } else {
-                 setSelections([]);
-                 setHistory([[]]);
-                 setHistoryIndex(0);
-             }
+             setSelections(session.selections);
+             setHistory([session.selections]); // Initialize history correctly
+             setHistoryIndex(0);
 
              const img = new Image();
              img.onload = () => {
@@ -123,18 +237,41 @@ const Index = () => {
              img.src = url;
           };
 
-          loadImage(session.imageUrl);
+          // Prefer the persisted bytes; a plain (non-blob) URL is the fallback for older sessions
+          const fallbackUrl: string | null = session.imageUrl && !session.imageUrl.startsWith("blob:") ? session.imageUrl : null;
+          const storedImage: Promise<Blob | null> = imageHash ? loadStoredImage(imageHash) : Promise.resolve(null);
+          storedImage
+            .catch((error) => {
+              console.error("Failed to read the stored image:", error);
+              return null;
+            })
+            .then((blob) => {
+              isSessionRestored.current = true;
+              const url = blob ? URL.createObjectURL(blob) : fallbackUrl;
+              if (url) {
+                loadImage(url);
+                if (blob?.type === SVG_MIME_TYPE) blob.text().then(setSvgText).catch(() => setSvgText(null));
+                return;
+              }
+              toast({ title: "Session Restore Error", description: "The previous image is no longer stored in this browser.", variant: "destructive" });
+              handleClearAll();
+            });
 
           toast({
             title: "Session restored",
             description: "Loading your previous image and selections...",
           });
+          return;
         }
       } catch (error) {
         console.error("Failed to parse or restore session:", error);
         localStorage.removeItem(STORAGE_KEY);
+        if (error instanceof SessionValidationError) {
+          toast({ title: "Saved session discarded", description: error.message, variant: "destructive" });
+        }
       }
     }
+    isSessionRestored.current = true;
      // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [toast]); // Run only once on mount, handleClearAll defined below won't change
 
@@ -172,18 +309,37 @@ const Index = () => {
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [handleUndo, handleRedo]); // Dependencies are correct here
 
-  // Handles new image upload
-  const handleImageUpload = useCallback((file: File) => {
+  // Loads an image file into a fresh workspace (keeps the canvas mode and profile)
+  const loadImageFile = useCallback((file: File) => {
     const url = URL.createObjectURL(file);
     setImageUrl(url);
+    setImageHash(null); // Set once the bytes are persisted
+    setSvgText(null);
+    setImageSource(null);
+    if (isSvgFile(file)) {
+      file.text()
+        .then((text) => { if (imageUrlRef.current === url) setSvgText(text); })
+        .catch((error) => console.warn("Could not read the SVG source; paint-order analysis is unavailable:", error));
+    }
+    storeImage(file, file.name)
+      .then((hash) => {
+        if (imageUrlRef.current === url) setImageHash(hash); // Ignore if another image replaced this one meanwhile
+        return collectUnusedImages([hash]); // Only the current session's image is kept
+      })
+      .catch((error) => console.warn("Image not persisted; the session will not survive a reload:", error));
     setIsImageLoading(true);
     setSelections([]);
     setAnalysisResult(null);
     setAppImageData(null);
     setImageData(null);
-    setBackgroundColor({ r: 255, g: 255, b: 255 });
+    setBackgroundColor(canvasModeBackgrounds[canvasMode]); // The canvas mode carries over to the next image
+    setBackgroundEstimate(null);
     setInkThreshold(DEFAULT_INK_THRESHOLD);
     setMagicWandTolerance(DEFAULT_WAND_TOLERANCE);
+    setColorMetric(DEFAULT_COLOR_METRIC);
+    setBackgroundMode(DEFAULT_BACKGROUND_MODE);
+    setFractionalCoverage(DEFAULT_FRACTIONAL_COVERAGE);
+    setSvgPaintOrder(DEFAULT_SVG_PAINT_ORDER);
     setHistory([[]]);
     setHistoryIndex(0);
 
@@ -203,8 +359,89 @@ const Index = () => {
       title: "Image loading",
       description: "Processing image for analysis...",
     });
+  }, [canvasMode, toast]);
+
+  // Handles new image upload. SVGs get a fixed raster size and selections built from their elements;
+  // PDFs open the page picker (see handlePdfPageImport).
+  const handleImageUpload = useCallback((file: File) => {
+    if (isPdfFile(file)) {
+      setPendingPdf(file);
+      return;
+    }
+    if (!isSvgFile(file)) {
+      loadImageFile(file);
+      return;
+    }
+    prepareSvgFile(file)
+      .then((svg) => {
+        loadImageFile(svg.file);
+        if (!selectedProfile) return;
+        try {
+          const { selections: autoSelections, matchedElements, unmatchedElements } = classifySvgElements(svg.svgText, svg.width, svg.height, selectedProfile, svgRules);
+          setSelections(autoSelections);
+          setHistory([autoSelections]);
+          setHistoryIndex(0);
+          toast({
+            title: "SVG classified",
+            description: `Created ${autoSelections.length} selections from ${matchedElements} elements for ${selectedProfile.name}.${unmatchedElements > 0 ? ` ${unmatchedElements} elements matched no rule and stay unclassified.` : ''}`,
+          });
+        } catch (error) {
+          console.error("SVG classification failed:", error);
+          toast({ title: "Automatic classification failed", description: "The SVG was loaded; draw selections by hand.", variant: "destructive" });
+        }
+      })
+      .catch((error) => {
+        console.error("SVG import failed:", error);
+        toast({ title: "Image Load Error", description: error instanceof Error ? error.message : "Could not read the SVG file.", variant: "destructive" });
+      });
+  }, [loadImageFile, selectedProfile, svgRules, toast]);
+
+  // Saves edited SVG rules; they apply to the next SVG upload
+  const handleSvgRulesSave = useCallback((rules: SvgClassificationRule[]) => {
+    setSvgRules(rules);
+    localStorage.setItem(SVG_RULES_STORAGE_KEY, JSON.stringify(rules));
+    toast({ title: "SVG rules saved", description: `${rules.length} rules will classify the next SVG upload.` });
   }, [toast]);
 
+  // Pasted and dropped images replace the workspace only after confirmation; the Upload button loads directly
+  const requestImageLoad = useCallback((file: File) => {
+    if (imageUrl || selections.length > 0) setPendingReplacement(file);
+    else handleImageUpload(file);
+  }, [imageUrl, selections.length, handleImageUpload]);
+
+  const handleConfirmReplacement = useCallback(() => {
+    if (pendingReplacement) handleImageUpload(pendingReplacement);
+    setPendingReplacement(null);
+  }, [pendingReplacement, handleImageUpload]);
+
+  // Ctrl+V / Cmd+V: load a copied screenshot or image file
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target;
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || (target instanceof HTMLElement && target.isContentEditable)) {
+        return;
+      }
+      const item = Array.from(e.clipboardData?.items ?? []).find(entry => entry.kind === "file" && entry.type.startsWith("image/"));
+      const file = item?.getAsFile();
+      if (!file) return;
+      e.preventDefault();
+      // Screenshots arrive as "image.png"; give them a recognisable name
+      const extension = file.type.split("/")[1]?.replace("svg+xml", "svg") || "png";
+      const named = file.name && file.name !== `image.${extension}` ? file : new File([file], `pasted-${Date.now()}.${extension}`, { type: file.type });
+      requestImageLoad(named);
+    };
+    window.addEventListener("paste", handlePaste);
+    return () => window.removeEventListener("paste", handlePaste);
+  }, [requestImageLoad]);
+
+  // Loads the page rendered in the PDF picker and records where it came from
+  const handlePdfPageImport = useCallback((image: File, source: ImageSource) => {
+    setPendingPdf(null);
+    loadImageFile(image);
+    setImageSource(source);
+    toast({ title: "PDF page imported", description: `Page ${source.page} of ${source.fileName} at ${source.dpi} DPI. Processing image...` });
+  }, [loadImageFile, toast]);
+
   // Callback from ImageCanvas when ImageData is ready
   const handleImageReady = useCallback((data: ImageData | null, bitmap: ImageBitmap | null) => {
      if (data && bitmap) {
@@ -216,9 +453,18 @@ const Index = () => {
             bitmap: bitmap,
         });
         setIsImageLoading(false);
+
+        // Propose a detected background unless it matches the current one
+        const estimate = detectBackgroundColor(data, canvasModeRef.current);
+        const { color } = estimate;
+        const current = backgroundColorRef.current;
+        const differs = color.r !== current.r || color.g !== current.g || color.b !== current.b;
+        setBackgroundEstimate(differs ? estimate : null);
         toast({
             title: "Image ready",
-            description: "You can now draw selection boxes.",
+            description: differs
+              ? `Detected background rgb(${color.r}, ${color.g}, ${color.b}) (${Math.round(estimate.confidence * 100)}% confidence). Accept or override it in the toolbar.`
+              : "You can now draw selection boxes.",
         });
      } else {
         // Handle the case where image loading failed in ImageCanvas
@@ -227,6 +473,30 @@ const Index = () => {
      }
   }, [imageUrl, toast]);
 
+  // Applies the detected background colour
+  const handleAcceptBackgroundEstimate = useCallback(() => {
+    if (!backgroundEstimate) return;
+    setBackgroundColor(backgroundEstimate.color);
+    setBackgroundEstimate(null);
+    setAnalysisResult(null); // Background change affects analysis
+  }, [backgroundEstimate]);
+
+  // Switches between light and dark canvases. A background still at the old mode's
+  // default follows the new mode; a detected or picked colour is kept.
+  const handleCanvasModeChange = useCallback((mode: CanvasMode) => {
+    setCanvasMode(mode);
+    if (isCanvasModeBackground(backgroundColor)) setBackgroundColor(canvasModeBackgrounds[mode]);
+    setAnalysisResult(null); // Canvas mode affects ink detection
+  }, [backgroundColor]);
+
+  // Switches the colour model; both thresholds are converted to the new model's unit
+  const handleColorMetricChange = useCallback((metric: ColorMetric) => {
+    setInkThreshold(value => convertThreshold(value, colorMetric, metric));
+    setMagicWandTolerance(value => convertThreshold(value, colorMetric, metric));
+    setColorMetric(metric);
+    setAnalysisResult(null);
+  }, [colorMetric]);
+
   // Runs the analysis
   const handleRunAnalysis = useCallback(() => {
     if (!imageData) {
@@ -237,74 +507,203 @@ const Index = () => {
       toast({ title: "Cannot analyze", description: "Please draw at least one selection box.", variant: "destructive" });
       return;
     }
+    analysisAbortRef.current?.abort(); // Never run two analyses at once
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setIsAnalyzing(true);
-    setTimeout(() => {
-      try {
-        const result = analyzeImage(imageData, selections, backgroundColor, inkThreshold);
+    setAnalysisProgress(0);
+
+    // SVG element layers: render the paint order first (main thread), then analyse in the worker
+    const usePaintOrder = !!svgText && svgPaintOrder && hasSvgElementSelections(selections);
+    const paintOwnership: Promise<Int32Array | null> = usePaintOrder
+      ? buildSvgPaintOwnership(svgText, imageData.width, imageData.height, selections, {
+          signal: controller.signal,
+          onProgress: (fraction) => setAnalysisProgress(fraction / 2),
+        })
+      : Promise.resolve(null);
+
+    paintOwnership
+      .then((ownership) => {
+        if (ownership) setSvgPaintOwnership({ selections, map: ownership }); // Also tints the ink overlay
+        return analyzeImageInWorker(imageData, selections, backgroundColor, inkThreshold, colorMetric, backgroundMode, fractionalCoverage, canvasMode, ownership, {
+          signal: controller.signal,
+          onProgress: usePaintOrder ? (fraction) => setAnalysisProgress(0.5 + fraction / 2) : setAnalysisProgress,
+        });
+      })
+      .then((result) => {
         setAnalysisResult(result);
         toast({
           title: "Analysis complete",
           description: `Efficiency: ${(result.efficiencyRatio * 100).toFixed(1)}%. Found ${result.totalDataPixels.toLocaleString()} data pixels.`,
         });
-      } catch (error) {
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return; // Cancelled runs are reported by whoever aborted them
         console.error("Analysis error:", error);
         toast({ title: "Analysis failed", description: error instanceof Error ? error.message : "An unknown error occurred.", variant: "destructive" });
         setAnalysisResult(null);
-      } finally {
+      })
+      .finally(() => {
+        if (analysisAbortRef.current !== controller) return; // A newer run owns the UI state
+        analysisAbortRef.current = null;
         setIsAnalyzing(false);
-      }
-    }, 50);
-  }, [imageData, selections, backgroundColor, inkThreshold, toast]);
+        setAnalysisProgress(0);
+      });
+  }, [imageData, selections, backgroundColor, inkThreshold, colorMetric, backgroundMode, fractionalCoverage, canvasMode, svgText, svgPaintOrder, toast]);
+
+  // Cancels the in-flight analysis, if any
+  const handleCancelAnalysis = useCallback((reason = "Analysis was stopped.") => {
+    if (!analysisAbortRef.current) return;
+    analysisAbortRef.current.abort();
+    analysisAbortRef.current = null;
+    setIsAnalyzing(false);
+    setAnalysisProgress(0);
+    toast({ title: "Analysis cancelled", description: reason });
+  }, [toast]);
+
+  // The paint-order map holds for the exact selection list it was built from
+  const activePaintOwnership = useMemo(() =>
+    svgText && svgPaintOrder && svgPaintOwnership?.selections === selections ? svgPaintOwnership.map : null,
+  [svgText, svgPaintOrder, svgPaintOwnership, selections]);
+
+  // Selections only change the ink map when some of them carry their own background
+  const backgroundSelections = useMemo(() =>
+    selections.some(sel => sel.backgroundColor) ? selections : NO_SELECTIONS,
+  [selections]);
+
+  // Rebuild the ink integral image whenever the ink definition changes (debounced for slider drags)
+  useEffect(() => {
+    setInkIntegral(null);
+    if (!imageData) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      buildInkIntegralInWorker(imageData, backgroundColor, inkThreshold, colorMetric, backgroundMode, backgroundSelections, canvasMode, { signal: controller.signal })
+        .then(setInkIntegral)
+        .catch((error) => {
+          if (!isAbortError(error)) console.error("Failed to build ink integral image:", error);
+        });
+    }, 200);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [imageData, backgroundColor, inkThreshold, colorMetric, backgroundMode, backgroundSelections, canvasMode]);
+
+  // Abort a running analysis when its inputs change, its result would be stale
+  useEffect(() => {
+    handleCancelAnalysis("Selections or settings changed while analyzing. Run the analysis again.");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [imageData, selections, backgroundColor, inkThreshold, colorMetric, backgroundMode, fractionalCoverage, canvasMode, svgPaintOrder]);
+
+  // Settings the batch dialog applies to every image (memoised: a change invalidates its results)
+  const batchSettings = useMemo<BatchAnalysisSettings>(() => ({
+    backgroundColor, inkThreshold, colorMetric, backgroundMode, fractionalCoverage, canvasMode,
+  }), [backgroundColor, inkThreshold, colorMetric, backgroundMode, fractionalCoverage, canvasMode]);
+
+  // Unclassified clusters from the last run that no selection covers yet
+  const unclassifiedClusters = useMemo(() =>
+    (analysisResult?.unclassified.clusters ?? []).filter(cluster => !selections.some(sel =>
+      sel.x === cluster.x && sel.y === cluster.y && sel.width === cluster.width && sel.height === cluster.height
+    )),
+  [analysisResult, selections]);
+
+  // Turns an unclassified ink cluster into a rectangle selection
+  const handleCreateSelectionFromCluster = useCallback((cluster: InkCluster) => {
+    const newSelection: SelectionBox = {
+      id: `sel-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+      x: cluster.x,
+      y: cluster.y,
+      width: cluster.width,
+      height: cluster.height,
+      label: currentComponent?.name || `Selection ${selections.length + 1}`,
+      color: currentComponent?.color || "#3b82f6",
+      isData: currentComponent?.isData ?? true,
+      countFullArea: false,
+    };
+    // Insert as the bottom layer so it only claims pixels no other layer owns
+    setSelections([newSelection, ...selections]);
+    setHighlightedCluster(null);
+  }, [currentComponent, selections]);
 
   // Handles background color sampling
   const handleBackgroundColorSample = useCallback((color: { r: number; g: number; b: number }) => {
     setBackgroundColor(color);
+    setBackgroundEstimate(null); // A sampled colour overrides the detected one
     setToolMode("select");
     toast({ title: "Background color updated", description: `Set to RGB(${color.r}, ${color.g}, ${color.b})` });
      setAnalysisResult(null); // Clear results as background change affects analysis
   }, [toast]);
 
+  // Assigns a sampled colour as one selection's local background
+  const handleSelectionBackgroundSample = useCallback((selectionId: string, color: { r: number; g: number; b: number }) => {
+    const target = selections.find(sel => sel.id === selectionId);
+    if (!target) return;
+    setSelections(selections.map(sel => sel.id === selectionId ? { ...sel, backgroundColor: color } : sel));
+    setToolMode("select");
+    toast({ title: "Selection background updated", description: `'${target.label}' now uses RGB(${color.r}, ${color.g}, ${color.b})` });
+    setAnalysisResult(null); // Background change affects analysis
+  }, [selections, toast]);
+
+  // The session as written by Export (JSON) and project bundles
+  const buildSessionData = useCallback((): SessionData => ({
+    version: SESSION_VERSION, // Version history and migrations: utils/session
+    imageUrl: imageUrl,
+    imageDimensions: imageDimensions,
+    selections,
+    backgroundColor,
+    inkThreshold,
+    magicWandTolerance,
+    colorMetric,
+    backgroundMode,
+    fractionalCoverage,
+    canvasMode,
+    svgPaintOrder,
+    imageSource,
+    selectedProfileId: selectedProfile?.id,
+  }), [selections, backgroundColor, inkThreshold, magicWandTolerance, colorMetric, backgroundMode, fractionalCoverage, canvasMode, svgPaintOrder, imageSource, selectedProfile, imageUrl, imageDimensions]);
+
   // Exports selections and settings
   const handleExportSelections = useCallback(() => {
      if (selections.length === 0 && !imageUrl) { // Check if there's anything to export
         toast({ title: "Nothing to Export", description: "Upload an image or draw selections first.", variant: "destructive" });
         return;
      }
-    const data = {
-      version: "1.1",
-      imageUrl: imageUrl,
-      imageDimensions: imageDimensions,
-      selections,
-      backgroundColor,
-      inkThreshold,
-      magicWandTolerance,
-      selectedProfileId: selectedProfile?.id,
-    };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
+    const blob = new Blob([JSON.stringify(buildSessionData(), null, 2)], { type: "application/json" });
     const filename = `data-ink-session-${new Date().toISOString().substring(0, 10)}.json`;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, filename);
     toast({ title: "Session exported", description: `Saved settings${selections.length > 0 ? ` and ${selections.length} selections` : ''} to ${filename}` });
-  }, [selections, backgroundColor, inkThreshold, magicWandTolerance, selectedProfile, imageUrl, imageDimensions, toast]);
+  }, [selections, imageUrl, buildSessionData, toast]);
+
+  // Exports a project bundle: the image itself, the session and the last result
+  const handleExportBundle = useCallback(() => {
+    if (!imageUrl) {
+      toast({ title: "Nothing to Export", description: "Upload an image first.", variant: "destructive" });
+      return;
+    }
+    const filename = `data-ink-project-${new Date().toISOString().substring(0, 10)}.zip`;
+    fetch(imageUrl)
+      .then((response) => response.blob())
+      .then((image) => createProjectBundle(image, buildSessionData(), analysisResult))
+      .then((bundle) => {
+        downloadBlob(bundle, filename);
+        toast({
+          title: "Project exported",
+          description: `Saved the image${selections.length > 0 ? `, ${selections.length} selections` : ''}${analysisResult ? ' and the last result' : ''} to ${filename}`,
+        });
+      })
+      .catch((error) => {
+        console.error("Project export failed:", error);
+        toast({ title: "Export failed", description: error instanceof Error ? error.message : "Could not create the project bundle.", variant: "destructive" });
+      });
+  }, [imageUrl, selections, analysisResult, buildSessionData, toast]);
 
  // Imports selections and settings
   const handleImportSelections = useCallback((file: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const data = JSON.parse(e.target?.result as string);
-        if (!data || typeof data !== 'object') throw new Error("Invalid file content.");
-
-        let loadedSelections: SelectionBox[] = [];
-        if (data.selections && Array.isArray(data.selections)) {
-           loadedSelections = data.selections;
-        }
+        const data = parseSession(JSON.parse(e.target?.result as string)); // Migrates older versions, throws with field-level errors
+        const loadedSelections = data.selections;
 
         let urlToLoad = imageUrl; // Start with current URL
         let dimensions = imageDimensions;
@@ -315,6 +714,9 @@ const Index = () => {
             // Reset state if the image URL is different or no image is currently loaded
             if (urlToLoad !== imageUrl || !imageUrl) {
                 setImageUrl(urlToLoad);
+                setImageHash(null);
+                setSvgText(null);
+                setImageSource(data.imageSource ?? null);
                 setIsImageLoading(true);
                 setAnalysisResult(null);
                 setAppImageData(null);
@@ -343,9 +745,15 @@ const Index = () => {
             throw new Error("Cannot import selections without an active image or an image URL in the file.");
         }
 
-        setBackgroundColor(data.backgroundColor ?? backgroundColor);
-        setInkThreshold(data.inkThreshold ?? inkThreshold);
-        setMagicWandTolerance(data.magicWandTolerance ?? magicWandTolerance);
+        setBackgroundColor(data.backgroundColor);
+        setBackgroundEstimate(null);
+        setInkThreshold(data.inkThreshold);
+        setMagicWandTolerance(data.magicWandTolerance);
+        setColorMetric(data.colorMetric);
+        setBackgroundMode(data.backgroundMode);
+        setFractionalCoverage(data.fractionalCoverage);
+        setCanvasMode(data.canvasMode);
+        setSvgPaintOrder(data.svgPaintOrder);
 
         if (data.selectedProfileId) {
             const profile = chartProfiles.find(p => p.id === data.selectedProfileId);
@@ -373,7 +781,79 @@ const Index = () => {
     }
     reader.readAsText(file);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [toast, imageUrl, backgroundColor, inkThreshold, magicWandTolerance, selectedProfile, imageDimensions]); // Added imageDimensions
+  }, [toast, imageUrl, selectedProfile, imageDimensions]); // Added imageDimensions
+
+  // Imports a project bundle: loads its image like an upload, then applies its session and result
+  const handleImportBundle = useCallback((file: File) => {
+    readProjectBundle(file)
+      .then(({ image, session, result }) => {
+        loadImageFile(image); // Resets the workspace and persists the image; the bundle brings its own selections
+
+        const loadedSelections = session.selections; // Validated by readProjectBundle
+        setCanvasMode(session.canvasMode);
+        setBackgroundColor(session.backgroundColor);
+        setInkThreshold(session.inkThreshold);
+        setMagicWandTolerance(session.magicWandTolerance);
+        setColorMetric(session.colorMetric);
+        setBackgroundMode(session.backgroundMode);
+        setFractionalCoverage(session.fractionalCoverage);
+        setSvgPaintOrder(session.svgPaintOrder);
+        setImageSource(session.imageSource ?? null);
+        if (session.selectedProfileId) {
+          const profile = chartProfiles.find(p => p.id === session.selectedProfileId);
+          if (profile) setSelectedProfile(profile);
+        }
+        setSelections(loadedSelections);
+        setHistory([loadedSelections]);
+        setHistoryIndex(0);
+        setAnalysisResult(result); // Matches the bundled selections and settings
+
+        toast({
+          title: "Project imported",
+          description: `Loaded the image${loadedSelections.length > 0 ? `, ${loadedSelections.length} selections` : ''}${result ? ' and the last result' : ''}.`,
+        });
+      })
+      .catch((error) => {
+        console.error("Project import failed:", error);
+        toast({ title: "Import failed", description: error instanceof Error ? error.message : "Could not read the project bundle.", variant: "destructive" });
+      });
+  }, [loadImageFile, toast]);
+
+  // Import button and page drops: project bundles (.zip) or sessions (.json)
+  const handleImportFile = useCallback((file: File) => {
+    if (isProjectBundleFile(file)) handleImportBundle(file);
+    else handleImportSelections(file);
+  }, [handleImportBundle, handleImportSelections]);
+
+  const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    if (e.defaultPrevented) { // Over the canvas, which shows its own drop hint
+      setIsDraggingFile(false);
+      return;
+    }
+    e.preventDefault(); // Allow the drop
+    e.dataTransfer.dropEffect = "copy";
+    setIsDraggingFile(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false);
+  }, []);
+
+  const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    setIsDraggingFile(false);
+    if (e.defaultPrevented) return; // Loaded by the canvas
+    e.preventDefault(); // Keep the browser from opening the file
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    if (isProjectBundleFile(file) || file.type === "application/json" || /\.json$/i.test(file.name)) {
+      handleImportFile(file);
+    } else if (file.type.startsWith("image/") || isSvgFile(file) || isPdfFile(file)) {
+      requestImageLoad(file); // Dropped beside the canvas
+    } else {
+      toast({ title: "Unsupported file", description: "Drop an image, SVG or PDF to load it, or a project bundle (.zip) or session file (.json) to import it.", variant: "destructive" });
+    }
+  }, [handleImportFile, requestImageLoad, toast]);
 
 
   // Clear All state function
@@ -384,43 +864,77 @@ const Index = () => {
         }
 
         setImageUrl(null);
+        setImageHash(null);
+        setSvgText(null);
+        setImageSource(null);
         setIsImageLoading(false);
         setSelections([]);
         setAnalysisResult(null);
         setAppImageData(null);
         setImageData(null);
         setImageDimensions({ width: 0, height: 0 }); // Reset dimensions
-        setBackgroundColor({ r: 255, g: 255, b: 255 });
+        setCanvasMode(DEFAULT_CANVAS_MODE);
+        setBackgroundColor(canvasModeBackgrounds[DEFAULT_CANVAS_MODE]);
+        setBackgroundEstimate(null);
         setInkThreshold(DEFAULT_INK_THRESHOLD);
         setMagicWandTolerance(DEFAULT_WAND_TOLERANCE);
+        setColorMetric(DEFAULT_COLOR_METRIC);
+        setBackgroundMode(DEFAULT_BACKGROUND_MODE);
+        setFractionalCoverage(DEFAULT_FRACTIONAL_COVERAGE);
+        setSvgPaintOrder(DEFAULT_SVG_PAINT_ORDER);
         setHistory([[]]);
         setHistoryIndex(0);
         setSelectedProfile(chartProfiles[0]);
         setCurrentComponent(null);
         localStorage.removeItem(STORAGE_KEY);
+        collectUnusedImages().catch((error) => console.warn("Failed to clear stored images:", error)); // Nothing references them any more
          toast({ title: "Workspace Cleared", description: "Image, selections, and settings have been reset."});
     }, [imageUrl, toast]); // Need imageUrl to revoke blob
 
 
   return (
-    <div className="min-h-screen flex flex-col bg-background">
+    <div className="min-h-screen flex flex-col bg-background" onDragOver={handleDragOver} onDragLeave={handleDragLeave} onDrop={handleDrop}>
+      {isDraggingFile && (
+        <div className="fixed inset-0 z-50 m-2 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-background/80 pointer-events-none">
+          <p className="text-sm font-medium text-foreground">Drop an image, SVG or PDF to load it, or a project bundle (.zip) or session (.json) to import</p>
+        </div>
+      )}
       <Toolbar
         onImageUpload={handleImageUpload}
         onRunAnalysis={handleRunAnalysis}
         hasImage={!!imageUrl}
         hasSelections={selections.length > 0}
         isAnalyzing={isAnalyzing}
+        analysisProgress={analysisProgress}
+        onCancelAnalysis={() => handleCancelAnalysis()}
         toolMode={toolMode}
         onToolModeChange={setToolMode}
         onExportSelections={handleExportSelections}
-        onImportSelections={handleImportSelections}
+        onExportBundle={handleExportBundle}
+        onOpenBatch={() => setIsBatchOpen(true)}
+        onImportSelections={handleImportFile}
         onUndo={handleUndo}
         onRedo={handleRedo}
         canUndo={historyIndex > 0}
         canRedo={historyIndex < history.length - 1}
         backgroundColor={backgroundColor}
+        backgroundEstimate={backgroundEstimate}
+        onAcceptBackgroundEstimate={handleAcceptBackgroundEstimate}
+        onDismissBackgroundEstimate={() => setBackgroundEstimate(null)}
         inkThreshold={inkThreshold}
         onInkThresholdChange={setInkThreshold}
+        canvasMode={canvasMode}
+        onCanvasModeChange={handleCanvasModeChange}
+        colorMetric={colorMetric}
+        onColorMetricChange={handleColorMetricChange}
+        backgroundMode={backgroundMode}
+        onBackgroundModeChange={(mode) => { setBackgroundMode(mode); setAnalysisResult(null); }}
+        fractionalCoverage={fractionalCoverage}
+        onFractionalCoverageChange={(enabled) => { setFractionalCoverage(enabled); setAnalysisResult(null); }}
+        isSvgImage={!!svgText}
+        svgPaintOrder={svgPaintOrder}
+        onSvgPaintOrderChange={(enabled) => { setSvgPaintOrder(enabled); setAnalysisResult(null); }}
+        onEditSvgRules={() => setIsSvgRulesOpen(true)}
         magicWandTolerance={magicWandTolerance}
         onMagicWandToleranceChange={setMagicWandTolerance}
         selectedProfile={selectedProfile}
@@ -430,6 +944,40 @@ const Index = () => {
          onClearAll={handleClearAll}
       />
 
+      <PdfImportDialog file={pendingPdf} onImport={handlePdfPageImport} onCancel={() => setPendingPdf(null)} />
+
+      <BatchDialog
+        open={isBatchOpen}
+        onOpenChange={setIsBatchOpen}
+        templateImage={imageData}
+        selections={selections}
+        settings={batchSettings}
+        selectedProfile={selectedProfile}
+      />
+      <SvgRulesDialog
+        open={isSvgRulesOpen}
+        onOpenChange={setIsSvgRulesOpen}
+        rules={svgRules}
+        onSave={handleSvgRulesSave}
+      />
+
+      <AlertDialog open={!!pendingReplacement} onOpenChange={(open) => { if (!open) setPendingReplacement(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace the current image?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Loading {pendingReplacement?.name ?? "this image"} discards the current image
+              {selections.length > 0 ? `, its ${selections.length} selection${selections.length === 1 ? "" : "s"}` : ""}
+              {analysisResult ? " and the last analysis result" : ""}. Export a project first to keep them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Current</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmReplacement}>Replace</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <main className="flex-1 container mx-auto px-4 sm:px-6 py-4 md:py-6 overflow-hidden flex flex-col"> {/* Use flex-col */}
         {/* Adjusted height calculation, ensure grid takes available space */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 xl:gap-6 flex-1 min-h-0"> {/* Use flex-1 and min-h-0 */}
@@ -445,9 +993,18 @@ const Index = () => {
               onImageReady={handleImageReady}
               toolMode={toolMode}
               onBackgroundColorSample={handleBackgroundColorSample}
+              onSelectionBackgroundSample={handleSelectionBackgroundSample}
               currentComponent={currentComponent}
               magicWandTolerance={magicWandTolerance}
+              colorMetric={colorMetric}
+              canvasMode={canvasMode}
+              inkIntegral={inkIntegral}
+              paintOwnership={activePaintOwnership}
+              unclassifiedClusters={unclassifiedClusters}
+              highlightedCluster={highlightedCluster}
+              onCreateSelectionFromCluster={handleCreateSelectionFromCluster}
               isImageLoading={isImageLoading}
+              onFileDrop={requestImageLoad}
             />
           </div>
 
@@ -466,6 +1023,14 @@ const Index = () => {
               <ResultsPanel
                 result={analysisResult}
                 selectedProfile={selectedProfile}
+                canvasMode={canvasMode}
+                unclassifiedClusters={unclassifiedClusters}
+                onCreateSelectionFromCluster={handleCreateSelectionFromCluster}
+                onHighlightCluster={setHighlightedCluster}
+                imageData={imageData}
+                selections={selections}
+                inkIntegral={inkIntegral}
+                paintOwnership={activePaintOwnership}
               />
             </div>
           </div>
@@ -0,0 +1,41 @@
+/**
+ * App-only type definitions: DOM-dependent types and the saved session format.
+ * Kept out of ./index so the analysis library (src/analysis) stays framework- and DOM-free.
+ */
+
+import { BackgroundMode, CanvasMode, ColorMetric, SelectionBox } from "./index";
+
+export interface ImageData {
+  url: string;
+  width: number;
+  height: number;
+  bitmap: ImageBitmap;
+}
+
+type RGB = { r: number; g: number; b: number };
+
+/** Where the analysed image came from when it is not the uploaded file itself. */
+export interface ImageSource {
+  kind: "pdf";
+  fileName: string;
+  page: number; // 1-based
+  dpi: number;
+}
+
+/** The session written by "Export" (JSON) and inside project bundles (session.json). */
+export interface SessionData {
+  version: string;
+  imageUrl?: string | null; // JSON export only; bundles carry the image itself
+  imageDimensions: { width: number; height: number };
+  selections: SelectionBox[];
+  backgroundColor: RGB;
+  inkThreshold: number;
+  magicWandTolerance: number;
+  colorMetric: ColorMetric;
+  backgroundMode: BackgroundMode;
+  fractionalCoverage: boolean;
+  canvasMode: CanvasMode;
+  svgPaintOrder: boolean; // Analyse SVG element layers by paint order (see utils/svgPaintOrder)
+  imageSource?: ImageSource | null; // Set for pages rendered from a PDF
+  selectedProfileId?: string;
+}
@@ -2,7 +2,7 @@
  * Comparison feature type definitions
  */
 
-import { AnalysisResult } from "./index";
+import { AnalysisResult, CanvasMode } from "./index";
 
 export type ReferenceType = "ideal" | "common" | "best-practice" | "custom";
 
@@ -15,6 +15,7 @@ export interface ReferenceVisualization {
   efficiencyRatio: number;
   analysisResult: AnalysisResult;
   imageUrl?: string;
+  canvasMode?: CanvasMode; // Canvas the reference is drawn on; light when absent
   metadata: {
     dataInkPixels: number;
     totalInkPixels: number;
@@ -36,8 +37,8 @@ export interface ComparisonResult {
   };
   breakdown: {
     dataInkDiff: number;
-    redundancyDiff: number;
-    chartjunkDiff: number;
+    nonDataInkDiff: number; // Negative when the user has less non-data ink
+    excessNonDataInkDifference: number; // Non-data ink beyond the reference (never negative)
   };
   interpretation: {
     summary: string;
@@ -2,9 +2,36 @@
  * Type definitions for Data-Ink Ratio Calculator
  */
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Raw RGBA pixels, row-major, 4 bytes per pixel. A DOM ImageData satisfies it, as do
+ * decoded image buffers in Node, so the analysis never depends on the browser.
+ */
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+export type SelectionShape = "rect" | "polygon" | "mask";
+
+/**
+ * Run-length encoded pixel mask anchored at the selection's (x, y).
+ * `runs` alternates unset/set run lengths in row-major order, starting with unset.
+ */
+export interface SelectionMask {
+  width: number;
+  height: number;
+  runs: number[];
+}
+
 export interface SelectionBox {
   id: string;
-  x: number; // Pixel coordinates in original image
+  x: number; // Pixel coordinates in original image (bounding box for polygons)
   y: number;
   width: number;
   height: number;
@@ -12,6 +39,11 @@ export interface SelectionBox {
   color: string;
   isData: boolean;
   countFullArea: boolean;
+  shape?: SelectionShape; // Missing means "rect" (sessions saved before polygons existed)
+  points?: Point[]; // Polygon vertices in image coordinates, only for shape "polygon"
+  mask?: SelectionMask; // Exact pixel set, only for shape "mask"
+  backgroundColor?: { r: number; g: number; b: number }; // Local background for pixels this layer owns
+  svgElements?: number[]; // Drawn SVG elements (document order) this layer stands for, set by SVG classification
 }
 
 export interface LayerResult {
@@ -21,28 +53,56 @@ export interface LayerResult {
   isData: boolean;
   totalPixels: number;
   inkPixels: number;
+  inkCoverage?: number; // Fractional ink (anti-aliasing aware), only in coverage mode
   countFullArea: boolean;
 }
 
+/** Connected group of ink pixels (8-connected) outside every selection. */
+export interface InkCluster {
+  x: number; // Tight pixel bounding box in image coordinates
+  y: number;
+  width: number;
+  height: number;
+  inkPixels: number;
+}
+
+export interface UnclassifiedInk {
+  inkPixels: number; // Ink pixels not owned by any layer
+  clusterCount: number; // All clusters, including those left out of `clusters`
+  clusters: InkCluster[]; // Largest first, capped to keep results small
+  inkCoverage?: number; // Fractional ink, only in coverage mode
+}
+
 export interface AnalysisResult {
   layers: LayerResult[];
+  unclassified: UnclassifiedInk;
   totalImagePixels: number;
   totalInkPixels: number;
   totalDataPixels: number;
   totalNonDataPixels: number;
   densityRatio: number; // DataPixels / TotalImagePixels
   efficiencyRatio: number; // DataPixels / TotalInkPixels
+  coverage?: InkCoverageTotals; // Only in coverage mode
 }
 
-export interface ImageData {
-  url: string;
-  width: number;
-  height: number;
-  bitmap: ImageBitmap;
+/** Fractional counterparts of the integer totals, from anti-aliasing-aware coverage. */
+export interface InkCoverageTotals {
+  totalInkCoverage: number;
+  totalDataCoverage: number;
+  totalNonDataCoverage: number;
+  efficiencyRatio: number; // DataCoverage / TotalInkCoverage
 }
 
 export type RatioType = "density" | "efficiency";
 
+export type ColorMetric = "rgb" | "cie76" | "ciede2000";
+
+export type BackgroundMode = "uniform" | "gradient" | "estimated";
+
+export type CanvasMode = "light" | "dark"; // Whether the chart is drawn on a light or a dark canvas
+
+export type ToolMode = "select" | "eyedropper" | "magicwand" | "polygon" | "lasso";
+
 export interface ChartProfile {
   id: string;
   name: string;
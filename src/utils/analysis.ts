@@ -5,36 +5,40 @@
  * - Each selection box defines a layer.
  * - Layers are processed from top (last drawn) to bottom.
  * - Pixels are counted only once, assigned to the topmost layer they fall within.
- * - Ink detection is based on color distance from a specified background color.
+ *   Ownership is tracked in a typed array sized to the image (one slot per pixel).
+ * - Polygon/lasso layers only claim pixels whose centre lies inside the polygon.
+ * - Mask layers (magic wand) only claim the pixels set in their mask.
+ * - Ink detection is based on color distance from a specified background color,
+ *   measured with a selectable colour-difference model (see ./color).
+ *   Non-uniform backgrounds (gradients, panels, per-selection colours) supply a
+ *   local background per pixel instead (see ./background).
+ * - The canvas mode (see ./canvasMode) sets the default background and, on dark
+ *   canvases, composites translucent pixels over their local background first.
+ * - Optional coverage mode: each ink pixel also contributes a fractional amount,
+ *   its position between the local background and the owning layer's dominant
+ *   ink colour, so faint anti-aliased edge pixels count as partial ink.
+ * - Ink left unowned by every layer is reported as "unclassified ink", grouped
+ *   into connected clusters so it can be located and classified.
+ * - SVG paint order: a precomputed ownership map (see ./svgPaintOrder) can decide
+ *   what layers standing for SVG elements own; the remaining layers then claim the
+ *   unowned pixels by the box rules above.
  */
 
-import { SelectionBox, LayerResult, AnalysisResult } from "../types";
-
-/**
- * Calculates the Euclidean distance between two colors in RGB space.
- * Used to determine if a pixel color is significantly different from the background.
- */
-function colorDistance(
-  r1: number, g1: number, b1: number,
-  r2: number, g2: number, b2: number
-): number {
-  return Math.sqrt(
-    Math.pow(r1 - r2, 2) +
-    Math.pow(g1 - g2, 2) +
-    Math.pow(b1 - b2, 2)
-  );
-}
-
+import { SelectionBox, LayerResult, AnalysisResult, ColorMetric, InkCluster, UnclassifiedInk, BackgroundMode, InkCoverageTotals, CanvasMode, PixelBuffer } from "../types";
+import { createColorDistance } from "./color";
+import { BackgroundField, createBackgroundField, packRGB, unpackRGB } from "./background";
+import { canvasModeBackgrounds } from "./canvasMode";
+import { createPixelTest, getSelectionPixelBounds } from "./geometry";
 
 /**
  * Determines if a pixel contains "ink" based on its color distance
- * from the specified background color and an alpha threshold.
+ * from the background color and an alpha threshold.
  *
  * @param r - Red channel value (0-255)
  * @param g - Green channel value (0-255)
  * @param b - Blue channel value (0-255)
  * @param a - Alpha channel value (0-255)
- * @param bgColor - The background color to compare against. Defaults to white.
+ * @param distanceFromBackground - Distance of a colour from the background under the active colour model.
  * @param inkThreshold - The minimum color distance from background to be considered ink.
  * @returns True if the pixel is considered ink, false otherwise.
  */
@@ -43,7 +47,7 @@ function isInkPixel(
   g: number,
   b: number,
   a: number,
-  bgColor: { r: number; g: number; b: number } = { r: 255, g: 255, b: 255 },
+  distanceFromBackground: (r: number, g: number, b: number) => number,
   inkThreshold: number // Added parameter
 ): boolean {
   // If alpha is very low (nearly transparent), it's not ink.
@@ -51,67 +55,316 @@ function isInkPixel(
   if (a < 13) return false;
 
   // Calculate color distance from the background color.
-  const distance = colorDistance(r, g, b, bgColor.r, bgColor.g, bgColor.b);
+  const distance = distanceFromBackground(r, g, b);
 
   // Consider it ink if the distance exceeds the threshold.
   return distance > inkThreshold; // Use the parameter
 }
 
 /**
- * Retrieves the RGBA color data for a pixel at the given coordinates.
+ * Classifies every pixel of the image as ink or background.
+ *
+ * @param imageData - The RGBA pixels of the chart image.
+ * @param backgroundColor - The background color pixels are compared against.
+ * @param inkThreshold - The sensitivity threshold for detecting ink pixels.
+ * @param colorMetric - The colour-difference model used to compare pixels with the background.
+ * @param onRow - Optional callback invoked after each scanned row.
+ * @param backgroundField - Optional per-pixel background; when given it replaces `backgroundColor`.
+ * @param canvasMode - On "dark" canvases translucent pixels are composited over their local background.
+ * @returns A row-major map (1 = ink) and the total number of ink pixels.
  */
-function getPixelData(
-  imageData: ImageData,
-  x: number,
-  y: number
-): [number, number, number, number] {
-   // Ensure coordinates are within bounds
-   const clampedX = Math.max(0, Math.min(imageData.width - 1, Math.floor(x)));
-   const clampedY = Math.max(0, Math.min(imageData.height - 1, Math.floor(y)));
-
-  // Calculate the index for the start of the pixel data (R channel)
-  const idx = (clampedY * imageData.width + clampedX) * 4;
-  return [
-    imageData.data[idx],     // R
-    imageData.data[idx + 1], // G
-    imageData.data[idx + 2], // B
-    imageData.data[idx + 3], // A
-  ];
+export function computeInkMap(
+  imageData: PixelBuffer,
+  backgroundColor: { r: number; g: number; b: number },
+  inkThreshold: number,
+  colorMetric: ColorMetric = "rgb",
+  onRow?: () => void,
+  backgroundField: BackgroundField | null = null,
+  canvasMode: CanvasMode = "light"
+): { inkMap: Uint8Array; totalInkPixels: number } {
+  const { width, height, data } = imageData;
+  const uniformDistance = createColorDistance(backgroundColor, colorMetric);
+  const uniformBackground = packRGB(backgroundColor.r, backgroundColor.g, backgroundColor.b);
+  const compositeTranslucent = canvasMode === "dark";
+  const inkMap = new Uint8Array(width * height);
+
+  // Local backgrounds repeat heavily (and usually match the previous pixel), so
+  // distance functions are cached per packed colour
+  const distanceCache = new Map<number, (r: number, g: number, b: number) => number>();
+  let lastBackground = -1;
+  let lastDistance = uniformDistance;
+  const distanceAt = (x: number, y: number) => {
+    const background = backgroundField!(x, y);
+    if (background === lastBackground) return lastDistance;
+    let distance = distanceCache.get(background);
+    if (!distance) {
+      if (distanceCache.size >= 65536) distanceCache.clear(); // Bound memory on noisy fields
+      distance = createColorDistance(unpackRGB(background), colorMetric);
+      distanceCache.set(background, distance);
+    }
+    lastBackground = background;
+    lastDistance = distance;
+    return distance;
+  };
+
+  let totalInkPixels = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixelIndex = y * width + x;
+      const idx = pixelIndex * 4;
+      const distanceFromBackground = backgroundField ? distanceAt(x, y) : uniformDistance;
+      let r = data[idx], g = data[idx + 1], b = data[idx + 2];
+      const a = data[idx + 3];
+      if (compositeTranslucent && a < 255) {
+        // Dark canvas: measure the colour the pixel actually shows over its background
+        const background = backgroundField ? backgroundField(x, y) : uniformBackground;
+        const alpha = a / 255;
+        r = r * alpha + ((background >> 16) & 255) * (1 - alpha);
+        g = g * alpha + ((background >> 8) & 255) * (1 - alpha);
+        b = b * alpha + (background & 255) * (1 - alpha);
+      }
+      if (isInkPixel(r, g, b, a, distanceFromBackground, inkThreshold)) {
+        inkMap[pixelIndex] = 1;
+        totalInkPixels++;
+      }
+    }
+    onRow?.();
+  }
+  return { inkMap, totalInkPixels };
+}
+
+// Only the largest unclassified clusters are listed; the rest are still counted.
+export const MAX_UNCLASSIFIED_CLUSTERS = 50;
+
+/**
+ * Groups the ink pixels no layer claimed into 8-connected clusters.
+ * Visited pixels are marked with -1 in the ownership map.
+ *
+ * @param inkMap - Row-major ink map (1 = ink).
+ * @param ownership - Ownership map filled by the layer pass (0 = unclaimed).
+ * @param width - Image width in pixels.
+ * @param height - Image height in pixels.
+ * @param onRow - Optional callback invoked after each scanned row.
+ * @returns The unclassified ink count and its largest clusters.
+ */
+function findUnclassifiedInk(
+  inkMap: Uint8Array,
+  ownership: Int32Array,
+  width: number,
+  height: number,
+  onRow?: () => void
+): UnclassifiedInk {
+  const clusters: InkCluster[] = [];
+  let stack: Int32Array | null = null; // Allocated on the first unclaimed ink pixel
+  let inkPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const seed = y * width + x;
+      if (!inkMap[seed] || ownership[seed] !== 0) continue;
+
+      // Depth-first fill; pixels are marked when pushed so each enters the stack once.
+      stack ??= new Int32Array(width * height);
+      let stackSize = 0;
+      stack[stackSize++] = seed;
+      ownership[seed] = -1;
+      let minX = x, minY = y, maxX = x, maxY = y, count = 0;
+
+      while (stackSize > 0) {
+        const pixelIndex = stack[--stackSize];
+        const px = pixelIndex % width;
+        const py = (pixelIndex - px) / width;
+        count++;
+        if (px < minX) minX = px;
+        if (px > maxX) maxX = px;
+        if (py < minY) minY = py;
+        if (py > maxY) maxY = py;
+
+        for (let ny = Math.max(0, py - 1); ny <= Math.min(height - 1, py + 1); ny++) {
+          for (let nx = Math.max(0, px - 1); nx <= Math.min(width - 1, px + 1); nx++) {
+            const neighbour = ny * width + nx;
+            if (inkMap[neighbour] && ownership[neighbour] === 0) {
+              ownership[neighbour] = -1;
+              stack[stackSize++] = neighbour;
+            }
+          }
+        }
+      }
+
+      inkPixels += count;
+      clusters.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1, inkPixels: count });
+    }
+    onRow?.();
+  }
+
+  clusters.sort((a, b) => b.inkPixels - a.inkPixels || a.y - b.y || a.x - b.x);
+  return {
+    inkPixels,
+    clusterCount: clusters.length,
+    clusters: clusters.slice(0, MAX_UNCLASSIFIED_CLUSTERS),
+  };
+}
+
+/**
+ * Fractional ink per owner. Each ink pixel P is projected onto the segment from its
+ * background B to its owner's dominant ink colour I: coverage = clamp((P - B)·(I - B) / |I - B|², 0, 1),
+ * scaled by the pixel's alpha. Pixels that fail the ink threshold contribute nothing,
+ * so background noise never adds up.
+ *
+ * @param imageData - The RGBA pixels of the chart image.
+ * @param inkMap - Row-major ink map (1 = ink).
+ * @param ownership - Final ownership map: layer index + 1, or -1 for unclassified ink.
+ * @param layerCount - Number of layers; slot `layerCount` collects unclassified ink.
+ * @param backgroundAt - Packed 0xRRGGBB background of a pixel.
+ * @param onRow - Optional callback invoked after each row of the final pass.
+ * @returns Coverage per slot (layers, then unclassified).
+ */
+function computeInkCoverage(
+  imageData: PixelBuffer,
+  inkMap: Uint8Array,
+  ownership: Int32Array,
+  layerCount: number,
+  backgroundAt: BackgroundField,
+  onRow?: () => void
+): Float64Array {
+  const { width, height, data } = imageData;
+  const slotOf = (owner: number) => (owner > 0 ? owner - 1 : layerCount);
+  const bucketOf = (idx: number) => ((data[idx] >> 3) << 10) | ((data[idx + 1] >> 3) << 5) | (data[idx + 2] >> 3);
+
+  // Dominant ink colour per slot: the 5-bit bucket with the most ink mass (pixel count weighted
+  // by distance from the background, so a solid core outweighs its fainter anti-aliased fringe),
+  // then the mean colour inside it
+  const mass = new Float64Array((layerCount + 1) << 15);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!inkMap[i]) continue;
+      const background = backgroundAt(x, y);
+      const idx = i * 4;
+      const distance = Math.hypot(data[idx] - ((background >> 16) & 255), data[idx + 1] - ((background >> 8) & 255), data[idx + 2] - (background & 255));
+      mass[(slotOf(ownership[i]) << 15) | bucketOf(idx)] += distance;
+    }
+  }
+  const dominantBucket = new Int32Array(layerCount + 1).fill(-1);
+  for (let slot = 0; slot <= layerCount; slot++) {
+    let best = 0;
+    for (let bucket = 0; bucket < 1 << 15; bucket++) {
+      const bucketMass = mass[(slot << 15) | bucket];
+      if (bucketMass > best) { best = bucketMass; dominantBucket[slot] = bucket; }
+    }
+  }
+  const inkSums = new Float64Array((layerCount + 1) * 4); // r, g, b, count
+  for (let i = 0; i < inkMap.length; i++) {
+    if (!inkMap[i]) continue;
+    const slot = slotOf(ownership[i]);
+    if (bucketOf(i * 4) !== dominantBucket[slot]) continue;
+    inkSums[slot * 4] += data[i * 4];
+    inkSums[slot * 4 + 1] += data[i * 4 + 1];
+    inkSums[slot * 4 + 2] += data[i * 4 + 2];
+    inkSums[slot * 4 + 3]++;
+  }
+
+  const coverage = new Float64Array(layerCount + 1);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!inkMap[i]) continue;
+      const slot = slotOf(ownership[i]);
+      const n = inkSums[slot * 4 + 3];
+      const inkR = inkSums[slot * 4] / n, inkG = inkSums[slot * 4 + 1] / n, inkB = inkSums[slot * 4 + 2] / n;
+      const background = backgroundAt(x, y);
+      const bgR = (background >> 16) & 255, bgG = (background >> 8) & 255, bgB = background & 255;
+      const axisR = inkR - bgR, axisG = inkG - bgG, axisB = inkB - bgB;
+      const axisLengthSq = axisR * axisR + axisG * axisG + axisB * axisB;
+      const idx = i * 4;
+      // An ink colour indistinguishable from the background gives no axis; count the pixel fully
+      const fraction = axisLengthSq < 1
+        ? 1
+        : ((data[idx] - bgR) * axisR + (data[idx + 1] - bgG) * axisG + (data[idx + 2] - bgB) * axisB) / axisLengthSq;
+      coverage[slot] += Math.max(0, Math.min(1, fraction)) * (data[idx + 3] / 255);
+    }
+    onRow?.();
+  }
+  return coverage;
 }
 
 /**
  * Performs the main layered analysis of the image based on user selections.
  * Calculates data-ink ratios and per-layer statistics.
  *
- * @param imageData - The ImageData object of the chart image.
+ * @param imageData - The RGBA pixels of the chart image.
  * @param selections - An array of user-defined selection boxes (order defines layering).
  * @param backgroundColor - The detected or specified background color of the chart.
+ *   Defaults to the canvas mode's background (white for light canvases).
  * @param inkThreshold - The sensitivity threshold for detecting ink pixels.
+ * @param colorMetric - The colour-difference model used to compare pixels with the background.
+ * @param backgroundMode - How the global background varies across the image (see ./background).
+ *   Selections with their own `backgroundColor` always use it for the pixels they own.
+ * @param fractionalCoverage - Also report anti-aliasing-aware fractional ink (see computeInkCoverage).
+ * @param canvasMode - Whether the chart is drawn on a light or dark canvas (see ./canvasMode).
+ * @param onProgress - Optional callback receiving the completed fraction (0-1), reported per row.
+ * @param paintOwnership - Optional ownership map from SVG paint order (selection index + 1 per pixel,
+ *   0 = unowned). Layers with `svgElements` own exactly their pixels in it instead of their shape.
+ *   A map that is not width * height long is ignored.
  * @returns An AnalysisResult object containing detailed metrics.
  */
 export function analyzeImage( // analyzeImage is already exported correctly
-  imageData: ImageData,
+  imageData: PixelBuffer,
   selections: SelectionBox[],
-  backgroundColor: { r: number; g: number; b: number } = { r: 255, g: 255, b: 255 }, // Default background to white
-  inkThreshold: number // Added parameter
+  backgroundColor: { r: number; g: number; b: number } | undefined, // Defaults to the canvas mode's background
+  inkThreshold: number, // Added parameter
+  colorMetric: ColorMetric = "rgb",
+  backgroundMode: BackgroundMode = "uniform",
+  fractionalCoverage = false,
+  canvasMode: CanvasMode = "light",
+  onProgress?: (fraction: number) => void,
+  paintOwnership: Int32Array | null = null
 ): AnalysisResult {
   const { width, height } = imageData;
+  backgroundColor ??= canvasModeBackgrounds[canvasMode];
   const totalImagePixels = width * height;
+  const paintOwners = paintOwnership?.length === totalImagePixels ? paintOwnership : null;
+  const isPainted = (selection: SelectionBox) => !!paintOwners && (selection.svgElements?.length ?? 0) > 0;
+
+  // Progress is measured in scanned rows: the ink pass, each box selection's rows (painted layers
+  // are tallied in one pass), the unclassified-ink pass and, in coverage mode, the coverage pass.
+  const totalRows = (fractionalCoverage ? 3 : 2) * height + (paintOwners ? height : 0) + selections.reduce((sum, sel) =>
+    isPainted(sel) ? sum : sum + Math.max(0, Math.min(height, Math.ceil(sel.y + sel.height)) - Math.max(0, Math.floor(sel.y))), 0);
+  let rowsDone = 0;
+  let lastReportedPercent = -1;
+  const reportRow = () => {
+    if (!onProgress || totalRows === 0) return;
+    rowsDone++;
+    const percent = Math.floor((rowsDone / totalRows) * 100);
+    if (percent !== lastReportedPercent) { // Throttle to whole percents
+      lastReportedPercent = percent;
+      onProgress(Math.min(1, rowsDone / totalRows));
+    }
+  };
 
-  // Use a Set to efficiently track pixels that have already been assigned to a layer.
-  // Key format: "x,y"
-  const processedPixels = new Set<string>();
+  // Ownership map: index (y * width + x) holds the owning layer's selection index + 1,
+  // or 0 while the pixel is unclaimed.
+  const ownership = new Int32Array(totalImagePixels);
 
   // Pre-calculate total ink pixels in the entire image for the efficiency ratio denominator.
-  // This is done once for performance.
-  let totalInkPixels = 0;
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const [r, g, b, a] = getPixelData(imageData, x, y);
-      // Use the inkThreshold parameter here
-      if (isInkPixel(r, g, b, a, backgroundColor, inkThreshold)) {
-        totalInkPixels++;
+  // The ink map is filled once and reused by every layer.
+  const backgroundField = createBackgroundField(imageData, backgroundColor, backgroundMode, selections);
+  const { inkMap, totalInkPixels } = computeInkMap(imageData, backgroundColor, inkThreshold, colorMetric, reportRow, backgroundField, canvasMode);
+
+  // Painted layers own exactly their pixels in the paint-order map; tally them in one pass
+  const paintedTotals = new Float64Array(selections.length);
+  const paintedInk = new Float64Array(selections.length);
+  if (paintOwners) {
+    for (let py = 0; py < height; py++) {
+      for (let px = 0; px < width; px++) {
+        const pixelIndex = py * width + px;
+        const owner = paintOwners[pixelIndex];
+        if (owner <= 0 || owner > selections.length || !isPainted(selections[owner - 1])) continue;
+        ownership[pixelIndex] = owner;
+        paintedTotals[owner - 1]++;
+        if (selections[owner - 1].countFullArea || inkMap[pixelIndex]) paintedInk[owner - 1]++;
       }
+      reportRow();
     }
   }
 
@@ -122,41 +375,44 @@ export function analyzeImage( // analyzeImage is already exported correctly
   // This ensures correct handling of overlapping selections.
   for (let i = selections.length - 1; i >= 0; i--) {
     const selection = selections[i];
-    const { x, y, width: w, height: h, id, label, color, isData, countFullArea } = selection;
+    const { id, label, color, isData, countFullArea } = selection;
 
-    // Calculate the integer pixel bounds for the current selection, clamped to image dimensions.
-    const x1 = Math.max(0, Math.floor(x));
-    const y1 = Math.max(0, Math.floor(y));
-    const x2 = Math.min(width, Math.ceil(x + w)); // Use ceil for end boundary
-    const y2 = Math.min(height, Math.ceil(y + h)); // Use ceil for end boundary
+    if (isPainted(selection)) {
+      layers.unshift({ id, label, color, isData, totalPixels: paintedTotals[i], inkPixels: paintedInk[i], countFullArea });
+      continue;
+    }
 
+    // Calculate the integer pixel bounds for the current selection, clamped to image dimensions.
+    // For polygons and masks this is the bounding box; membership is refined per pixel below.
+    const { x1, y1, x2, y2 } = getSelectionPixelBounds(selection, width, height);
+    const containsPixel = createPixelTest(selection);
 
     let layerTotalPixels = 0; // Pixels exclusively assigned to this layer
     let layerInkPixels = 0;   // Ink pixels exclusively assigned to this layer
 
     // Iterate over every pixel within the selection's bounding box.
     for (let py = y1; py < y2; py++) {
+      reportRow();
       for (let px = x1; px < x2; px++) {
-        const pixelKey = `${px},${py}`;
+        // Polygon and mask layers only own the pixels inside their shape.
+        if (containsPixel && !containsPixel(px, py)) continue;
+
+        const pixelIndex = py * width + px;
 
         // IMPORTANT: Skip if this pixel has already been claimed by a layer above (processed earlier in this loop).
-        if (processedPixels.has(pixelKey)) continue;
+        if (ownership[pixelIndex] !== 0) continue;
 
         // Mark this pixel as processed and assign it to the current layer.
-        processedPixels.add(pixelKey);
+        ownership[pixelIndex] = i + 1;
         layerTotalPixels++;
 
         // Determine if this pixel counts as ink for this layer.
         if (countFullArea) {
           // If 'Count Full Area' is checked, every pixel in the layer counts as ink.
           layerInkPixels++;
-        } else {
-          // Otherwise, check if the pixel's color qualifies as ink.
-          const [r, g, b, a] = getPixelData(imageData, px, py);
-          // Use the inkThreshold parameter here as well
-          if (isInkPixel(r, g, b, a, backgroundColor, inkThreshold)) {
-            layerInkPixels++;
-          }
+        } else if (inkMap[pixelIndex]) {
+          // Otherwise, count it if the full-image pass classified it as ink.
+          layerInkPixels++;
         }
       }
     }
@@ -173,6 +429,36 @@ export function analyzeImage( // analyzeImage is already exported correctly
     });
   }
 
+  // Whatever ink is still unclaimed belongs to no layer.
+  const unclassified = findUnclassifiedInk(inkMap, ownership, width, height, reportRow);
+
+  // Fractional coverage per layer (slot selections.length holds unclassified ink)
+  let coverage: InkCoverageTotals | undefined;
+  if (fractionalCoverage) {
+    const uniformBackground = packRGB(backgroundColor.r, backgroundColor.g, backgroundColor.b);
+    const slotCoverage = computeInkCoverage(
+      imageData, inkMap, ownership, selections.length, backgroundField ?? (() => uniformBackground), reportRow
+    );
+    let totalDataCoverage = 0;
+    let totalNonDataCoverage = 0;
+    layers.forEach((layer, i) => {
+      // Every pixel of a full-area layer is ink, so it is fully covered
+      layer.inkCoverage = layer.countFullArea ? layer.totalPixels : slotCoverage[i];
+      if (layer.isData) totalDataCoverage += layer.inkCoverage;
+      else totalNonDataCoverage += layer.inkCoverage;
+    });
+    unclassified.inkCoverage = slotCoverage[selections.length];
+
+    // Ink owned by full-area layers is part of the total as well, matching totalInkPixels
+    const totalInkCoverage = slotCoverage.reduce((sum, value) => sum + value, 0);
+    coverage = {
+      totalInkCoverage,
+      totalDataCoverage,
+      totalNonDataCoverage,
+      efficiencyRatio: totalInkCoverage > 0 ? totalDataCoverage / totalInkCoverage : 0,
+    };
+  }
+
   // Aggregate results across all layers.
   let totalDataPixels = 0;
   let totalNonDataPixels = 0;
@@ -197,12 +483,14 @@ export function analyzeImage( // analyzeImage is already exported correctly
 
   return {
     layers,
+    unclassified,
     totalImagePixels,
     totalInkPixels, // Use the pre-calculated total ink across the image
     totalDataPixels,
     totalNonDataPixels,
     densityRatio,
     efficiencyRatio,
+    ...(coverage && { coverage }),
   };
 }
 
@@ -219,12 +507,14 @@ export function exportToJSON(result: AnalysisResult): string {
  */
 // *** ADD export HERE ***
 export function exportToCSV(result: AnalysisResult): string {
+  const { coverage } = result; // Coverage columns only appear for coverage-mode results
   const headers = [
     "Layer ID",
     "Label",
     "Classification",
     "Total Pixels (Exclusive)", // Clarified header
     "Ink Pixels (Exclusive)", // Clarified header
+    ...(coverage ? ["Ink Coverage (Fractional)"] : []),
     "Count Full Area",
   ];
 
@@ -234,6 +524,7 @@ export function exportToCSV(result: AnalysisResult): string {
     layer.isData ? "Data" : "Non-Data",
     layer.totalPixels.toString(),
     layer.inkPixels.toString(),
+    ...(coverage ? [(layer.inkCoverage ?? 0).toFixed(2)] : []),
     layer.countFullArea ? "Yes" : "No",
   ]);
 
@@ -244,8 +535,17 @@ export function exportToCSV(result: AnalysisResult): string {
     ["Total Ink Pixels (Entire Image)", result.totalInkPixels.toString()], // Clarified header
     ["Total Data Pixels (Sum of Layers)", result.totalDataPixels.toString()], // Clarified header
     ["Total Non-Data Pixels (Sum of Layers)", result.totalNonDataPixels.toString()], // Clarified header
+    ["Unclassified Ink Pixels (Outside All Layers)", result.unclassified.inkPixels.toString()],
+    ["Unclassified Ink Clusters", result.unclassified.clusterCount.toString()],
     ["Density Ratio (Data/Image)", result.densityRatio.toFixed(4)],
     ["Efficiency Ratio (Data/Total Ink)", result.efficiencyRatio.toFixed(4)],
+    ...(coverage ? [
+      ["Total Ink Coverage (Fractional)", coverage.totalInkCoverage.toFixed(2)],
+      ["Data Coverage (Fractional)", coverage.totalDataCoverage.toFixed(2)],
+      ["Non-Data Coverage (Fractional)", coverage.totalNonDataCoverage.toFixed(2)],
+      ["Unclassified Ink Coverage (Fractional)", (result.unclassified.inkCoverage ?? 0).toFixed(2)],
+      ["Coverage Efficiency Ratio (Data/Total Ink Coverage)", coverage.efficiencyRatio.toFixed(4)],
+    ] : []),
   ];
 
   // Combine headers, layer rows, and summary rows
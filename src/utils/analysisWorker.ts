@@ -0,0 +1,184 @@
+/**
+ * Analysis Worker Client
+ * Promise-based wrappers that run analysis jobs in a dedicated Web Worker.
+ *
+ * Each job spawns its own worker and terminates it when done, so aborting a
+ * stale run is as simple as terminating the worker mid-scan.
+ */
+
+import { AnalysisResult, BackgroundMode, CanvasMode, ColorMetric, SelectionBox } from "@/types";
+import type { FloodFillRegion } from "@/analysis";
+import type { InkIntegral } from "./integralImage";
+
+type RGB = { r: number; g: number; b: number };
+
+interface PixelBufferMessage {
+  width: number;
+  height: number;
+  buffer: ArrayBuffer; // Transferred RGBA bytes
+}
+
+type AnalysisWorkerJob =
+  | {
+      type: "analyze";
+      selections: SelectionBox[];
+      backgroundColor: RGB;
+      inkThreshold: number;
+      colorMetric: ColorMetric;
+      backgroundMode: BackgroundMode;
+      fractionalCoverage: boolean;
+      canvasMode: CanvasMode;
+      paintOwnership: Int32Array | null; // SVG paint-order owners (see ./svgPaintOrder)
+    }
+  | {
+      type: "floodFill";
+      startX: number;
+      startY: number;
+      tolerance: number;
+      colorMetric: ColorMetric;
+      backdrop: RGB | null; // Composite translucent pixels over this colour (dark canvases)
+    }
+  | {
+      type: "inkIntegral";
+      backgroundColor: RGB;
+      inkThreshold: number;
+      colorMetric: ColorMetric;
+      backgroundMode: BackgroundMode;
+      selections: SelectionBox[]; // Only needed when some selection has its own background
+      canvasMode: CanvasMode;
+    };
+
+export type AnalysisWorkerRequest = AnalysisWorkerJob & PixelBufferMessage;
+
+export type AnalysisWorkerResponse =
+  | { type: "progress"; progress: number }
+  | { type: "analysis"; result: AnalysisResult }
+  | { type: "floodFill"; region: FloodFillRegion | null }
+  | { type: "inkIntegral"; integral: InkIntegral }
+  | { type: "error"; message: string };
+
+interface WorkerJobOptions {
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * True if the error came from aborting a worker job.
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/**
+ * Posts a request to a fresh worker and resolves with its final response.
+ * The pixel data is copied before transfer so the caller's ImageData stays usable.
+ */
+function runWorkerJob(
+  imageData: ImageData,
+  job: AnalysisWorkerJob,
+  { signal, onProgress }: WorkerJobOptions
+): Promise<AnalysisWorkerResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Analysis cancelled.", "AbortError"));
+      return;
+    }
+
+    const worker = new Worker(new URL("../workers/analysis.worker.ts", import.meta.url), { type: "module" });
+    const handleAbort = () => {
+      worker.terminate();
+      reject(new DOMException("Analysis cancelled.", "AbortError"));
+    };
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+    signal?.addEventListener("abort", handleAbort, { once: true });
+
+    worker.onmessage = (e: MessageEvent<AnalysisWorkerResponse>) => {
+      const response = e.data;
+      if (response.type === "progress") {
+        onProgress?.(response.progress);
+        return;
+      }
+      finish();
+      if (response.type === "error") reject(new Error(response.message));
+      else resolve(response);
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || "Analysis worker failed."));
+    };
+
+    const buffer = imageData.data.slice().buffer;
+    const message: AnalysisWorkerRequest = { ...job, width: imageData.width, height: imageData.height, buffer };
+    worker.postMessage(message, [buffer]);
+  });
+}
+
+/**
+ * Runs `analyzeImage` in a worker. Rejects with an AbortError if `signal` fires.
+ */
+export async function analyzeImageInWorker(
+  imageData: ImageData,
+  selections: SelectionBox[],
+  backgroundColor: RGB,
+  inkThreshold: number,
+  colorMetric: ColorMetric,
+  backgroundMode: BackgroundMode,
+  fractionalCoverage: boolean,
+  canvasMode: CanvasMode,
+  paintOwnership: Int32Array | null,
+  options: WorkerJobOptions = {}
+): Promise<AnalysisResult> {
+  const response = await runWorkerJob(
+    imageData,
+    { type: "analyze", selections, backgroundColor, inkThreshold, colorMetric, backgroundMode, fractionalCoverage, canvasMode, paintOwnership },
+    options
+  );
+  if (response.type !== "analysis") throw new Error("Unexpected worker response.");
+  return response.result;
+}
+
+/**
+ * Runs the magic-wand `floodFill` in a worker.
+ */
+export async function floodFillInWorker(
+  imageData: ImageData,
+  startX: number,
+  startY: number,
+  tolerance: number,
+  colorMetric: ColorMetric,
+  backdrop: RGB | null,
+  options: WorkerJobOptions = {}
+): Promise<FloodFillRegion | null> {
+  const response = await runWorkerJob(
+    imageData,
+    { type: "floodFill", startX, startY, tolerance, colorMetric, backdrop },
+    options
+  );
+  if (response.type !== "floodFill") throw new Error("Unexpected worker response.");
+  return response.region;
+}
+
+/**
+ * Builds the ink map and its summed-area table in a worker.
+ */
+export async function buildInkIntegralInWorker(
+  imageData: ImageData,
+  backgroundColor: RGB,
+  inkThreshold: number,
+  colorMetric: ColorMetric,
+  backgroundMode: BackgroundMode,
+  selections: SelectionBox[],
+  canvasMode: CanvasMode,
+  options: WorkerJobOptions = {}
+): Promise<InkIntegral> {
+  const response = await runWorkerJob(
+    imageData,
+    { type: "inkIntegral", backgroundColor, inkThreshold, colorMetric, backgroundMode, selections, canvasMode },
+    options
+  );
+  if (response.type !== "inkIntegral") throw new Error("Unexpected worker response.");
+  return response.integral;
+}
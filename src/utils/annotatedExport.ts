@@ -0,0 +1,300 @@
+/**
+ * Annotated Chart Export
+ *
+ * Renders the chart at its original resolution with what the canvas shows on top:
+ * the optional ink-mask tint (see ./inkOverlay), every analysed layer's outline and
+ * label, and a legend panel beside the chart listing each layer's ink pixels and the
+ * efficiency ratio. Used for the PNG export and the reports.
+ *
+ * Strokes and text scale with the image so they stay legible on large charts.
+ */
+
+import { AnalysisResult, CanvasMode, SelectionBox } from "../types";
+import { canvasModeBackgrounds } from "./canvasMode";
+import { isMaskSelection, isPolygonSelection } from "./geometry";
+import { InkIntegral } from "./integralImage";
+import { inkOverlayPalettes, renderInkOverlay } from "./inkOverlay";
+import { decodeMask } from "./mask";
+
+const REFERENCE_SIZE = 1000; // Longest side at which strokes and text have their on-screen size
+const LEGEND_WIDTH = 300;
+
+export interface AnnotatedChartOptions {
+  image: ImageData;
+  selections: SelectionBox[];
+  result: AnalysisResult;
+  canvasMode: CanvasMode;
+  inkIntegral?: InkIntegral | null; // Tints ink pixels by owner when given
+  paintOwnership?: Int32Array | null; // SVG paint-order owners, built for `selections` (see ./svgPaintOrder)
+  legend?: boolean; // Default true
+}
+
+interface LegendTheme {
+  background: string;
+  text: string;
+  muted: string;
+  border: string;
+}
+
+const legendThemes: Record<CanvasMode, LegendTheme> = {
+  light: { background: "#ffffff", text: "#0f172a", muted: "#64748b", border: "#e2e8f0" },
+  dark: { background: "#0f172a", text: "#f1f5f9", muted: "#94a3b8", border: "#334155" },
+};
+
+const toCss = ([r, g, b]: readonly number[]): string => `rgb(${r}, ${g}, ${b})`;
+
+// The mask's set pixels in the selection colour, ready to draw at the mask anchor
+function renderMaskTint(selection: SelectionBox): HTMLCanvasElement {
+  const mask = selection.mask!;
+  const canvas = document.createElement("canvas");
+  canvas.width = mask.width;
+  canvas.height = mask.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx || mask.width === 0 || mask.height === 0) return canvas;
+  const bits = decodeMask(mask);
+  const tint = ctx.createImageData(mask.width, mask.height);
+  const r = parseInt(selection.color.slice(1, 3), 16), g = parseInt(selection.color.slice(3, 5), 16), b = parseInt(selection.color.slice(5, 7), 16);
+  for (let i = 0; i < bits.length; i++) {
+    if (!bits[i]) continue;
+    tint.data[i * 4] = r;
+    tint.data[i * 4 + 1] = g;
+    tint.data[i * 4 + 2] = b;
+    tint.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(tint, 0, 0);
+  return canvas;
+}
+
+function drawLayer(ctx: CanvasRenderingContext2D, sel: SelectionBox, unit: number, isDark: boolean) {
+  ctx.strokeStyle = sel.color;
+  ctx.lineWidth = 2 * unit;
+  ctx.fillStyle = sel.color + "20";
+
+  if (isPolygonSelection(sel)) {
+    ctx.beginPath();
+    sel.points!.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+  } else if (isMaskSelection(sel)) {
+    ctx.globalAlpha = 0.3;
+    ctx.drawImage(renderMaskTint(sel), Math.round(sel.x), Math.round(sel.y));
+    ctx.globalAlpha = 1;
+    ctx.setLineDash([4 * unit, 3 * unit]);
+    ctx.strokeRect(Math.round(sel.x), Math.round(sel.y), sel.width, sel.height);
+    ctx.setLineDash([]);
+  } else {
+    ctx.fillRect(sel.x, sel.y, sel.width, sel.height);
+    ctx.strokeRect(sel.x, sel.y, sel.width, sel.height);
+  }
+
+  // Label in the top-left corner, as on the canvas
+  ctx.font = `bold ${13 * unit}px sans-serif`;
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+  const padding = 4 * unit;
+  const textWidth = ctx.measureText(sel.label).width;
+  ctx.fillStyle = isDark ? "rgba(15, 23, 42, 0.8)" : "rgba(255, 255, 255, 0.75)";
+  ctx.fillRect(sel.x + padding, sel.y + padding, textWidth + padding * 2, 14 * unit + padding);
+  ctx.fillStyle = sel.color;
+  ctx.fillText(sel.label, sel.x + padding * 2, sel.y + padding + 2 * unit);
+}
+
+interface LegendRow {
+  color: string;
+  dashed?: boolean;
+  label: string;
+  detail: string;
+  value: string;
+}
+
+function getLegendRows(result: AnalysisResult, withInkMask: boolean, canvasMode: CanvasMode): { rows: LegendRow[]; key: LegendRow[] } {
+  const rows: LegendRow[] = result.layers.map(layer => ({
+    color: layer.color,
+    label: layer.label,
+    detail: layer.isData ? "Data" : "Non-Data",
+    value: `${layer.inkPixels.toLocaleString()} px`,
+  }));
+  if (result.unclassified.inkPixels > 0) {
+    rows.push({
+      color: "#ef4444",
+      dashed: true,
+      label: "Unclassified Ink",
+      detail: `${result.unclassified.clusterCount.toLocaleString()} clusters`,
+      value: `${result.unclassified.inkPixels.toLocaleString()} px`,
+    });
+  }
+  const palette = inkOverlayPalettes[canvasMode];
+  const key: LegendRow[] = withInkMask
+    ? ([["Data", palette.data], ["Non-Data", palette.nonData], ["Unclassified", palette.unclassified], ["Background", palette.background]] as const)
+        .map(([label, color]) => ({ color: toCss(color), label, detail: "", value: "" }))
+    : [];
+  return { rows, key };
+}
+
+/**
+ * Copies pixels onto a new canvas of their size.
+ */
+export function imageDataToCanvas(image: ImageData): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext("2d")?.putImageData(image, 0, 0);
+  return canvas;
+}
+
+/**
+ * Renders the annotated chart onto a new canvas: the image at 1:1, the legend
+ * (unless disabled) in a panel to its right.
+ */
+export function renderAnnotatedChart({
+  image,
+  selections,
+  result,
+  canvasMode,
+  inkIntegral = null,
+  paintOwnership = null,
+  legend = true,
+}: AnnotatedChartOptions): HTMLCanvasElement {
+  const { width, height } = image;
+  const unit = Math.max(1, Math.max(width, height) / REFERENCE_SIZE);
+  const isDark = canvasMode === "dark";
+  const theme = legendThemes[canvasMode];
+  const withInkMask = !!inkIntegral && inkIntegral.width === width && inkIntegral.height === height;
+
+  // Only layers in the result are drawn, so boxes and legend describe the same analysis
+  const analysed = new Set(result.layers.map(layer => layer.id));
+  const layers = selections.filter(sel => analysed.has(sel.id));
+
+  const { rows, key } = getLegendRows(result, withInkMask, canvasMode);
+  const rowHeight = 22 * unit;
+  const legendPadding = 16 * unit;
+  const legendWidth = legend ? LEGEND_WIDTH * unit : 0;
+  const legendHeight = legendPadding * 2 + 92 * unit + rows.length * rowHeight + (key.length > 0 ? 30 * unit + key.length * rowHeight : 0);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(width + legendWidth);
+  canvas.height = Math.ceil(legend ? Math.max(height, legendHeight) : height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to get 2D context");
+
+  // Chart over its canvas backdrop (transparent pixels show what they are analysed against)
+  const backdrop = canvasModeBackgrounds[canvasMode];
+  ctx.fillStyle = `rgb(${backdrop.r}, ${backdrop.g}, ${backdrop.b})`;
+  ctx.fillRect(0, 0, width, height);
+  const chart = imageDataToCanvas(image);
+  ctx.drawImage(chart, 0, 0);
+  if (withInkMask) {
+    // The paint-order map indexes the full selection list, so the tint then uses all of it
+    const tint = paintOwnership
+      ? renderInkOverlay(inkIntegral!, selections, inkOverlayPalettes[canvasMode], paintOwnership)
+      : renderInkOverlay(inkIntegral!, layers, inkOverlayPalettes[canvasMode]);
+    chart.getContext("2d")?.putImageData(tint, 0, 0);
+    ctx.drawImage(chart, 0, 0);
+  }
+  layers.forEach(sel => drawLayer(ctx, sel, unit, isDark));
+
+  if (!legend) return canvas;
+
+  // Legend panel
+  const left = width + legendPadding;
+  const right = canvas.width - legendPadding;
+  ctx.fillStyle = theme.background;
+  ctx.fillRect(width, 0, legendWidth, canvas.height);
+  ctx.fillStyle = theme.border;
+  ctx.fillRect(width, 0, unit, canvas.height);
+
+  ctx.textBaseline = "top";
+  ctx.textAlign = "left";
+  let y = legendPadding;
+  ctx.fillStyle = theme.muted;
+  ctx.font = `${12 * unit}px sans-serif`;
+  ctx.fillText("Data-Ink Efficiency Ratio", left, y);
+  y += 18 * unit;
+  ctx.fillStyle = theme.text;
+  ctx.font = `bold ${32 * unit}px sans-serif`;
+  ctx.fillText(`${(result.efficiencyRatio * 100).toFixed(2)}%`, left, y);
+  y += 40 * unit;
+  ctx.fillStyle = theme.muted;
+  ctx.font = `${11 * unit}px sans-serif`;
+  ctx.fillText(`${result.totalDataPixels.toLocaleString()} data / ${result.totalInkPixels.toLocaleString()} ink pixels`, left, y);
+  y += 34 * unit;
+
+  const drawRow = (row: LegendRow) => {
+    const swatch = 10 * unit;
+    const middle = y + rowHeight / 2;
+    if (row.dashed) {
+      ctx.strokeStyle = row.color;
+      ctx.lineWidth = unit;
+      ctx.setLineDash([2 * unit, 2 * unit]);
+      ctx.strokeRect(left, middle - swatch / 2, swatch, swatch);
+      ctx.setLineDash([]);
+    } else {
+      ctx.fillStyle = row.color;
+      ctx.fillRect(left, middle - swatch / 2, swatch, swatch);
+    }
+    ctx.textBaseline = "middle";
+    ctx.textAlign = "right";
+    ctx.font = `${12 * unit}px sans-serif`;
+    ctx.fillStyle = theme.muted;
+    ctx.fillText(row.value, right, middle);
+    const valueWidth = row.value ? ctx.measureText(row.value).width + 8 * unit : 0;
+
+    ctx.textAlign = "left";
+    ctx.font = `bold ${12 * unit}px sans-serif`;
+    ctx.fillStyle = theme.text;
+    const labelLeft = left + swatch + 6 * unit;
+    const maxLabelWidth = right - valueWidth - labelLeft;
+    ctx.fillText(row.label, labelLeft, middle, maxLabelWidth);
+    const labelWidth = Math.min(ctx.measureText(row.label).width, maxLabelWidth);
+    if (row.detail && labelWidth + 60 * unit < maxLabelWidth) {
+      ctx.font = `${10 * unit}px sans-serif`;
+      ctx.fillStyle = theme.muted;
+      ctx.fillText(row.detail, labelLeft + labelWidth + 6 * unit, middle, maxLabelWidth - labelWidth - 6 * unit);
+    }
+    ctx.textBaseline = "top";
+    y += rowHeight;
+  };
+
+  ctx.fillStyle = theme.text;
+  ctx.font = `bold ${13 * unit}px sans-serif`;
+  ctx.fillText("Layers (ink pixels)", left, y - 18 * unit);
+  rows.forEach(drawRow);
+
+  if (key.length > 0) {
+    y += 12 * unit;
+    ctx.fillStyle = theme.text;
+    ctx.font = `bold ${13 * unit}px sans-serif`;
+    ctx.fillText("Ink Mask", left, y);
+    y += 18 * unit;
+    key.forEach(drawRow);
+  }
+
+  return canvas;
+}
+
+/**
+ * Scales a canvas down so its longer side is at most maxSide pixels; smaller
+ * canvases are returned as they are.
+ */
+export function downscaleCanvas(canvas: HTMLCanvasElement, maxSide: number): HTMLCanvasElement {
+  const scale = maxSide / Math.max(canvas.width, canvas.height);
+  if (scale >= 1) return canvas;
+  const scaled = document.createElement("canvas");
+  scaled.width = Math.max(1, Math.round(canvas.width * scale));
+  scaled.height = Math.max(1, Math.round(canvas.height * scale));
+  const ctx = scaled.getContext("2d");
+  if (!ctx) throw new Error("Failed to get 2D context");
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(canvas, 0, 0, scaled.width, scaled.height);
+  return scaled;
+}
+
+/**
+ * Encodes a canvas as a PNG blob.
+ */
+export function canvasToPngBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode the image."))), "image/png");
+  });
+}
@@ -4,7 +4,7 @@
  * Analyzes results and provides actionable advice
  */
 
-import { AnalysisResult, ChartProfile, Suggestion } from "@/types";
+import { AnalysisResult, ChartProfile, Suggestion } from "../types";
 
 export function generateSuggestions(
   result: AnalysisResult,
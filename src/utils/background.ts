@@ -0,0 +1,307 @@
+/**
+ * Background Models
+ *
+ * Ink is measured against the *local* background of each pixel:
+ * - A selection with its own `backgroundColor` uses it for every pixel it owns.
+ * - Otherwise the global model applies:
+ *   - "uniform":   the single global background colour.
+ *   - "gradient":  a smooth quadratic surface fitted to the image's tile colours,
+ *                  for gradient backdrops and vignettes.
+ *   - "estimated": the fitted surface corrected per tile by the tile's dominant
+ *                  colour, for shaded plot areas, panels and alternating bands.
+ *
+ * Tiles are summarised by their dominant colour (5-bit-per-channel histogram).
+ * The gradient fit rejects tiles that stray far from the surface (bars, large
+ * labels), and the sampled estimate only keeps tile corrections that stay within
+ * MAX_LOCAL_DEVIATION of the fit, so solid data marks are not mistaken for panels.
+ */
+
+import { BackgroundMode, PixelBuffer, SelectionBox } from "../types";
+import { createPixelTest, getSelectionPixelBounds } from "./geometry";
+
+type RGB = { r: number; g: number; b: number };
+
+/** Background at a pixel, packed as 0xRRGGBB. */
+export type BackgroundField = (x: number, y: number) => number;
+
+export const backgroundModeLabels: Record<BackgroundMode, string> = {
+  uniform: "Uniform Colour",
+  gradient: "Gradient Fit",
+  estimated: "Sampled Estimate",
+};
+
+const MIN_DOMINANT_SHARE = 0.35; // A tile without a colour this common says nothing about the background
+const MAX_LOCAL_DEVIATION = 48; // RGB distance a tile may differ from the fit and still count as background
+const MAX_SAMPLES_PER_TILE = 256;
+const SELECTION_BACKGROUND = 1 << 24; // Flag bit marking a per-selection background in the override map
+
+interface TileGrid {
+  cols: number;
+  rows: number;
+  tileWidth: number;
+  tileHeight: number;
+  colors: Float64Array; // cols * rows * 3, dominant colour per tile
+  valid: Uint8Array; // 1 if the tile has a clear dominant colour
+}
+
+export function packRGB(r: number, g: number, b: number): number {
+  return (r << 16) | (g << 8) | b;
+}
+
+export function unpackRGB(packed: number): RGB {
+  return { r: (packed >> 16) & 255, g: (packed >> 8) & 255, b: packed & 255 };
+}
+
+/**
+ * Summarises the image as a grid of roughly 32 x 32 tiles, each with its dominant colour.
+ */
+function sampleTiles(imageData: PixelBuffer): TileGrid {
+  const { width, height, data } = imageData;
+  const tileSize = Math.max(8, Math.ceil(Math.max(width, height) / 32));
+  const cols = Math.ceil(width / tileSize);
+  const rows = Math.ceil(height / tileSize);
+  const colors = new Float64Array(cols * rows * 3);
+  const valid = new Uint8Array(cols * rows);
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+
+  for (let ty = 0; ty < rows; ty++) {
+    for (let tx = 0; tx < cols; tx++) {
+      const x1 = tx * tileSize, y1 = ty * tileSize;
+      const x2 = Math.min(width, x1 + tileSize), y2 = Math.min(height, y1 + tileSize);
+      const step = Math.max(1, Math.floor(Math.sqrt(((x2 - x1) * (y2 - y1)) / MAX_SAMPLES_PER_TILE)));
+
+      buckets.clear();
+      let samples = 0;
+      for (let y = y1; y < y2; y += step) {
+        for (let x = x1; x < x2; x += step) {
+          const idx = (y * width + x) * 4;
+          if (data[idx + 3] < 13) continue; // Transparent pixels are never ink
+          const key = ((data[idx] >> 3) << 10) | ((data[idx + 1] >> 3) << 5) | (data[idx + 2] >> 3);
+          const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+          bucket.count++;
+          bucket.r += data[idx];
+          bucket.g += data[idx + 1];
+          bucket.b += data[idx + 2];
+          buckets.set(key, bucket);
+          samples++;
+        }
+      }
+
+      let dominant: { count: number; r: number; g: number; b: number } | null = null;
+      for (const bucket of buckets.values()) {
+        if (!dominant || bucket.count > dominant.count) dominant = bucket;
+      }
+      const tile = ty * cols + tx;
+      if (dominant && dominant.count >= samples * MIN_DOMINANT_SHARE) {
+        colors[tile * 3] = dominant.r / dominant.count;
+        colors[tile * 3 + 1] = dominant.g / dominant.count;
+        colors[tile * 3 + 2] = dominant.b / dominant.count;
+        valid[tile] = 1;
+      }
+    }
+  }
+  return { cols, rows, tileWidth: tileSize, tileHeight: tileSize, colors, valid };
+}
+
+/** Quadratic basis in normalised coordinates. */
+function basis(u: number, v: number): number[] {
+  return [1, u, v, u * u, u * v, v * v];
+}
+
+/**
+ * Solves the normal equations A x = b (6 x 6) by Gaussian elimination with partial pivoting.
+ * Returns null if the system is singular.
+ */
+function solve(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Fits a quadratic surface per channel to the valid tiles, with two rounds of
+ * outlier rejection. Returns per-channel coefficients, or null if too few tiles fit.
+ */
+function fitGradient(grid: TileGrid, width: number, height: number): number[][] | null {
+  const { cols, rows, tileWidth, tileHeight, colors } = grid;
+  const included = Uint8Array.from(grid.valid);
+  let coefficients: number[][] | null = null;
+
+  for (let round = 0; round < 3; round++) {
+    const A = Array.from({ length: 6 }, () => new Array(6).fill(0));
+    const b = [0, 1, 2].map(() => new Array(6).fill(0));
+    let count = 0;
+    for (let tile = 0; tile < cols * rows; tile++) {
+      if (!included[tile]) continue;
+      const tx = tile % cols, ty = (tile - tx) / cols;
+      const phi = basis(((tx + 0.5) * tileWidth) / width, ((ty + 0.5) * tileHeight) / height);
+      for (let i = 0; i < 6; i++) {
+        for (let j = 0; j < 6; j++) A[i][j] += phi[i] * phi[j];
+        for (let c = 0; c < 3; c++) b[c][i] += phi[i] * colors[tile * 3 + c];
+      }
+      count++;
+    }
+    if (count < 6) return coefficients;
+    const solved = b.map(rhs => solve(A, rhs));
+    if (solved.some(x => x === null)) return coefficients;
+    coefficients = solved as number[][];
+    if (round === 2) break;
+
+    // Drop tiles far from the surface (data marks, legends) and refit
+    const residuals: number[] = [];
+    for (let tile = 0; tile < cols * rows; tile++) {
+      if (!included[tile]) continue;
+      residuals.push(tileResidual(grid, tile, coefficients, width, height));
+    }
+    residuals.sort((p, q) => p - q);
+    const cutoff = Math.max(12, 2.5 * residuals[Math.floor(residuals.length / 2)]);
+    for (let tile = 0; tile < cols * rows; tile++) {
+      if (included[tile] && tileResidual(grid, tile, coefficients, width, height) > cutoff) included[tile] = 0;
+    }
+  }
+  return coefficients;
+}
+
+function evaluateSurface(coefficients: number[][], u: number, v: number, channel: number): number {
+  const [c0, cu, cv, cuu, cuv, cvv] = coefficients[channel]; // Same order as basis()
+  return c0 + cu * u + cv * v + cuu * u * u + cuv * u * v + cvv * v * v;
+}
+
+function tileResidual(grid: TileGrid, tile: number, coefficients: number[][], width: number, height: number): number {
+  const tx = tile % grid.cols, ty = (tile - tx) / grid.cols;
+  const u = ((tx + 0.5) * grid.tileWidth) / width, v = ((ty + 0.5) * grid.tileHeight) / height;
+  return Math.hypot(
+    grid.colors[tile * 3] - evaluateSurface(coefficients, u, v, 0),
+    grid.colors[tile * 3 + 1] - evaluateSurface(coefficients, u, v, 1),
+    grid.colors[tile * 3 + 2] - evaluateSurface(coefficients, u, v, 2)
+  );
+}
+
+const clampChannel = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+
+/**
+ * Builds the global background field for the chosen mode, or null for a uniform background.
+ */
+function createGlobalField(imageData: PixelBuffer, mode: BackgroundMode): BackgroundField | null {
+  if (mode === "uniform") return null;
+  const { width, height } = imageData;
+  const grid = sampleTiles(imageData);
+  const coefficients = fitGradient(grid, width, height);
+  if (!coefficients) return null; // Not enough clean tiles: fall back to the uniform colour
+
+  // Surface colour at every tile centre; the sampled estimate swaps in close-enough tile colours
+  const { cols, rows, tileWidth, tileHeight } = grid;
+  const tileColors = new Float64Array(cols * rows * 3);
+  for (let tile = 0; tile < cols * rows; tile++) {
+    const tx = tile % cols, ty = (tile - tx) / cols;
+    const u = ((tx + 0.5) * tileWidth) / width, v = ((ty + 0.5) * tileHeight) / height;
+    const keepTile = mode === "estimated" && grid.valid[tile] &&
+      tileResidual(grid, tile, coefficients, width, height) <= MAX_LOCAL_DEVIATION;
+    for (let c = 0; c < 3; c++) {
+      tileColors[tile * 3 + c] = keepTile ? grid.colors[tile * 3 + c] : evaluateSurface(coefficients, u, v, c);
+    }
+  }
+
+  if (mode === "gradient") {
+    // Per row the surface is a quadratic in u: constant + linear * u + quadratic * u^2
+    const rowTerms = new Float64Array(9);
+    let rowY = -1;
+    return (x, y) => {
+      if (y !== rowY) {
+        const v = (y + 0.5) / height;
+        for (let c = 0; c < 3; c++) {
+          const [c0, cu, cv, cuu, cuv, cvv] = coefficients[c];
+          rowTerms[c * 3] = c0 + cv * v + cvv * v * v;
+          rowTerms[c * 3 + 1] = cu + cuv * v;
+          rowTerms[c * 3 + 2] = cuu;
+        }
+        rowY = y;
+      }
+      const u = (x + 0.5) / width;
+      return packRGB(
+        clampChannel(rowTerms[0] + (rowTerms[1] + rowTerms[2] * u) * u),
+        clampChannel(rowTerms[3] + (rowTerms[4] + rowTerms[5] * u) * u),
+        clampChannel(rowTerms[6] + (rowTerms[7] + rowTerms[8] * u) * u)
+      );
+    };
+  }
+
+  // Sampled estimate: bilinear interpolation between tile centres
+  return (x, y) => {
+    const fx = Math.max(0, Math.min(cols - 1, (x + 0.5) / tileWidth - 0.5));
+    const fy = Math.max(0, Math.min(rows - 1, (y + 0.5) / tileHeight - 0.5));
+    const x0 = Math.floor(fx), y0 = Math.floor(fy);
+    const x1 = Math.min(cols - 1, x0 + 1), y1 = Math.min(rows - 1, y0 + 1);
+    const wx = fx - x0, wy = fy - y0;
+    const w00 = (1 - wx) * (1 - wy), w01 = wx * (1 - wy), w10 = (1 - wx) * wy, w11 = wx * wy;
+    const i00 = (y0 * cols + x0) * 3, i01 = (y0 * cols + x1) * 3, i10 = (y1 * cols + x0) * 3, i11 = (y1 * cols + x1) * 3;
+    return packRGB(
+      clampChannel(tileColors[i00] * w00 + tileColors[i01] * w01 + tileColors[i10] * w10 + tileColors[i11] * w11),
+      clampChannel(tileColors[i00 + 1] * w00 + tileColors[i01 + 1] * w01 + tileColors[i10 + 1] * w10 + tileColors[i11 + 1] * w11),
+      clampChannel(tileColors[i00 + 2] * w00 + tileColors[i01 + 2] * w01 + tileColors[i10 + 2] * w10 + tileColors[i11 + 2] * w11)
+    );
+  };
+}
+
+/**
+ * Resolves the background of every pixel: the owning selection's own background if it
+ * has one (topmost layer wins), otherwise the global model. Returns null when every
+ * pixel uses the uniform `backgroundColor`, so callers can keep their fast path.
+ */
+export function createBackgroundField(
+  imageData: PixelBuffer,
+  backgroundColor: RGB,
+  mode: BackgroundMode = "uniform",
+  selections: SelectionBox[] = []
+): BackgroundField | null {
+  const { width, height } = imageData;
+  const globalField = createGlobalField(imageData, mode);
+  const hasSelectionBackgrounds = selections.some(sel => sel.backgroundColor);
+  if (!globalField && !hasSelectionBackgrounds) return null;
+
+  const uniform = packRGB(backgroundColor.r, backgroundColor.g, backgroundColor.b);
+  const fallback: BackgroundField = globalField ?? (() => uniform);
+  if (!hasSelectionBackgrounds) return fallback;
+
+  // Paint layers bottom to top so the topmost owner decides; layers without their own background clear the slot
+  const overrides = new Uint32Array(width * height);
+  selections.forEach(selection => {
+    const { x1, y1, x2, y2 } = getSelectionPixelBounds(selection, width, height);
+    const value = selection.backgroundColor
+      ? SELECTION_BACKGROUND | packRGB(selection.backgroundColor.r, selection.backgroundColor.g, selection.backgroundColor.b)
+      : 0;
+    const containsPixel = createPixelTest(selection);
+    for (let py = y1; py < y2; py++) {
+      if (!containsPixel) {
+        overrides.fill(value, py * width + x1, py * width + x2);
+        continue;
+      }
+      for (let px = x1; px < x2; px++) {
+        if (containsPixel(px, py)) overrides[py * width + px] = value;
+      }
+    }
+  });
+
+  return (x, y) => {
+    const override = overrides[y * width + x];
+    return override & SELECTION_BACKGROUND ? override & 0xffffff : fallback(x, y);
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Background Colour Detection
+ *
+ * Estimates a chart's background from two cues:
+ * - Border sampling: the outermost band of the image is almost always background.
+ * - Dominant-colour histogram: the background usually covers most of the canvas.
+ *
+ * Colours are bucketed at 5 bits per channel; the winning border bucket is
+ * averaged into the proposed colour. Confidence blends how much of the border
+ * and of the whole image lies close to that colour.
+ */
+
+import { CanvasMode, PixelBuffer } from "../types";
+import { canvasModeBackgrounds } from "./canvasMode";
+
+type RGB = { r: number; g: number; b: number };
+
+export interface BackgroundEstimate {
+  color: RGB;
+  confidence: number; // 0-1
+  borderCoverage: number; // Share of border samples close to `color`
+  imageCoverage: number; // Share of image samples close to `color`
+}
+
+const MAX_IMAGE_SAMPLES = 250000; // Interior samples are strided down to about this many
+const MATCH_DISTANCE = 24; // RGB distance that still counts as "the same" background (JPEG noise, dithering)
+const BORDER_WEIGHT = 0.6; // The border is the stronger cue
+
+/** Histogram bucket for a colour, 5 bits per channel. */
+function bucketOf(r: number, g: number, b: number): number {
+  return ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+}
+
+/**
+ * Proposes a background colour for an image. Transparent pixels are skipped, since
+ * the analysis never treats them as ink; fully transparent borders propose the
+ * canvas mode's background (white on light canvases).
+ */
+export function detectBackgroundColor(imageData: PixelBuffer, canvasMode: CanvasMode = "light"): BackgroundEstimate {
+  const { width, height, data } = imageData;
+  const band = Math.max(1, Math.round(Math.min(width, height) * 0.02));
+
+  // Collect opaque border pixel offsets (top/bottom rows, then left/right columns)
+  const borderOffsets: number[] = [];
+  let transparentBorder = 0;
+  const addBorderPixel = (x: number, y: number) => {
+    const idx = (y * width + x) * 4;
+    if (data[idx + 3] < 13) transparentBorder++;
+    else borderOffsets.push(idx);
+  };
+  for (let y = 0; y < height; y++) {
+    const isEdgeRow = y < band || y >= height - band;
+    if (isEdgeRow) {
+      for (let x = 0; x < width; x++) addBorderPixel(x, y);
+    } else {
+      for (let x = 0; x < Math.min(band, width); x++) addBorderPixel(x, y);
+      for (let x = Math.max(band, width - band); x < width; x++) addBorderPixel(x, y);
+    }
+  }
+
+  const borderTotal = borderOffsets.length + transparentBorder;
+  if (borderOffsets.length === 0 || transparentBorder > borderOffsets.length) {
+    return {
+      color: canvasModeBackgrounds[canvasMode],
+      confidence: borderTotal > 0 ? transparentBorder / borderTotal : 0,
+      borderCoverage: 0,
+      imageCoverage: 0,
+    };
+  }
+
+  // Dominant border bucket, averaged for a colour that is not snapped to the bucket grid
+  const counts = new Uint32Array(1 << 15);
+  borderOffsets.forEach(idx => counts[bucketOf(data[idx], data[idx + 1], data[idx + 2])]++);
+  let dominant = 0;
+  for (let bucket = 1; bucket < counts.length; bucket++) {
+    if (counts[bucket] > counts[dominant]) dominant = bucket;
+  }
+  let sumR = 0, sumG = 0, sumB = 0, n = 0;
+  borderOffsets.forEach(idx => {
+    if (bucketOf(data[idx], data[idx + 1], data[idx + 2]) !== dominant) return;
+    sumR += data[idx]; sumG += data[idx + 1]; sumB += data[idx + 2]; n++;
+  });
+  const color = { r: Math.round(sumR / n), g: Math.round(sumG / n), b: Math.round(sumB / n) };
+
+  const isClose = (idx: number) => Math.hypot(data[idx] - color.r, data[idx + 1] - color.g, data[idx + 2] - color.b) <= MATCH_DISTANCE;
+
+  const borderCoverage = borderOffsets.filter(isClose).length / borderTotal;
+
+  // Strided sample over the whole image
+  const stride = Math.max(1, Math.floor((width * height) / MAX_IMAGE_SAMPLES));
+  let imageSamples = 0;
+  let imageMatches = 0;
+  for (let pixel = 0; pixel < width * height; pixel += stride) {
+    const idx = pixel * 4;
+    if (data[idx + 3] < 13) continue;
+    imageSamples++;
+    if (isClose(idx)) imageMatches++;
+  }
+  const imageCoverage = imageSamples > 0 ? imageMatches / imageSamples : 0;
+
+  return {
+    color,
+    confidence: BORDER_WEIGHT * borderCoverage + (1 - BORDER_WEIGHT) * imageCoverage,
+    borderCoverage,
+    imageCoverage,
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * Batch Analysis
+ *
+ * Charts generated from one template share their layout, so the selections drawn on
+ * one image can be reused for the rest: scaleSelections maps them onto each image's
+ * dimensions (x and y independently), and every image is then analysed with the same
+ * settings. exportBatchToCSV writes the per-image summary.
+ *
+ * SVG element links (`svgElements`) are dropped: element indices only hold for the
+ * template's own SVG, so batch images always use box rules.
+ */
+
+import { AnalysisResult, BackgroundMode, CanvasMode, ChartProfile, ColorMetric, SelectionBox } from "../types";
+import { getVerdictText } from "./benchmarks";
+import { decodeMask, encodeMask } from "./mask";
+import { isMaskSelection, isPolygonSelection } from "./geometry";
+import { isSvgFile, prepareSvgFile } from "./svgImport";
+
+// Aspect ratios further apart than this stretch the template noticeably
+const ASPECT_TOLERANCE = 0.02;
+
+export interface BatchSize {
+  width: number;
+  height: number;
+}
+
+/** Analysis settings shared by every image of a batch (the template's). */
+export interface BatchAnalysisSettings {
+  backgroundColor: { r: number; g: number; b: number };
+  inkThreshold: number;
+  colorMetric: ColorMetric;
+  backgroundMode: BackgroundMode;
+  fractionalCoverage: boolean;
+  canvasMode: CanvasMode;
+}
+
+/** One image of a batch and, once analysed, its result. */
+export interface BatchEntry {
+  id: string;
+  name: string;
+  file: File | null; // null for the template, whose pixels are already loaded
+  width: number; // 0 until decoded
+  height: number;
+  status: "pending" | "analyzing" | "done" | "error";
+  result: AnalysisResult | null;
+  error: string | null;
+}
+
+/**
+ * Whether the layout is stretched (not just scaled) to fit an image of size `to`.
+ */
+export function isAspectMismatch(from: BatchSize, to: BatchSize): boolean {
+  if (!from.width || !from.height || !to.width || !to.height) return false;
+  const ratio = (to.width / to.height) / (from.width / from.height);
+  return Math.abs(ratio - 1) > ASPECT_TOLERANCE;
+}
+
+// Nearest-neighbour resample of a mask to width x height cells
+function resampleMask(selection: SelectionBox, width: number, height: number): SelectionBox["mask"] {
+  const mask = selection.mask!;
+  const source = decodeMask(mask);
+  const bits = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const my = Math.min(mask.height - 1, Math.floor(((y + 0.5) * mask.height) / height));
+    for (let x = 0; x < width; x++) {
+      const mx = Math.min(mask.width - 1, Math.floor(((x + 0.5) * mask.width) / width));
+      bits[y * width + x] = source[my * mask.width + mx];
+    }
+  }
+  return encodeMask(bits, width, height);
+}
+
+/**
+ * Maps selections drawn on an image of size `from` onto one of size `to`.
+ * Rectangles and polygons scale exactly; masks are resampled to whole pixels.
+ */
+export function scaleSelections(selections: SelectionBox[], from: BatchSize, to: BatchSize): SelectionBox[] {
+  const sx = from.width ? to.width / from.width : 1;
+  const sy = from.height ? to.height / from.height : 1;
+
+  return selections.map(({ svgElements, ...selection }) => {
+    if (isMaskSelection(selection)) {
+      const width = Math.max(1, Math.round(selection.mask!.width * sx));
+      const height = Math.max(1, Math.round(selection.mask!.height * sy));
+      return {
+        ...selection,
+        x: Math.round(selection.x * sx),
+        y: Math.round(selection.y * sy),
+        width,
+        height,
+        mask: resampleMask(selection, width, height),
+      };
+    }
+    return {
+      ...selection,
+      x: selection.x * sx,
+      y: selection.y * sy,
+      width: selection.width * sx,
+      height: selection.height * sy,
+      points: isPolygonSelection(selection) ? selection.points!.map(p => ({ x: p.x * sx, y: p.y * sy })) : selection.points,
+    };
+  });
+}
+
+/**
+ * Decodes an image file (SVGs at their declared size) into RGBA pixels.
+ */
+export async function loadImagePixels(file: File): Promise<ImageData> {
+  const source = isSvgFile(file) ? (await prepareSvgFile(file)).file : file;
+  const url = URL.createObjectURL(source);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode().catch(() => {
+      throw new Error("Could not decode the image.");
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) throw new Error("Failed to get 2D context");
+    ctx.drawImage(img, 0, 0);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+const quoteCsv = (field: string): string =>
+  /[",\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+
+/**
+ * Export a batch summary to CSV: one row per image, verdicts against the profile's
+ * efficiency benchmarks. Images without a result keep their status in the last column.
+ */
+export function exportBatchToCSV(entries: BatchEntry[], profile: ChartProfile | null): string {
+  const headers = [
+    "Image",
+    "Width",
+    "Height",
+    "Efficiency Ratio (Data/Total Ink)",
+    "Density Ratio (Data/Image)",
+    "Data Pixels",
+    "Ink Pixels",
+    "Unclassified Ink Pixels",
+    "Verdict",
+    "Status",
+  ];
+
+  const rows = entries.map(entry => {
+    const { result } = entry;
+    const verdict = result && profile
+      ? getVerdictText(result.efficiencyRatio, profile.benchmarks.efficiency, "efficiency", profile.name).text
+      : "";
+    return [
+      entry.name,
+      entry.width ? entry.width.toString() : "",
+      entry.height ? entry.height.toString() : "",
+      result ? result.efficiencyRatio.toFixed(4) : "",
+      result ? result.densityRatio.toFixed(4) : "",
+      result ? result.totalDataPixels.toString() : "",
+      result ? result.totalInkPixels.toString() : "",
+      result ? result.unclassified.inkPixels.toString() : "",
+      verdict,
+      entry.status === "error" ? `Error: ${entry.error ?? "unknown"}` : entry.status,
+    ];
+  });
+
+  return [headers, ...rows].map(row => row.map(quoteCsv).join(",")).join("\n");
+}
@@ -5,7 +5,7 @@
  * and benchmark ranges for quality assessment
  */
 
-import { ChartProfile } from "@/types";
+import { ChartProfile } from "../types";
 
 export const chartProfiles: ChartProfile[] = [
   {
@@ -0,0 +1,39 @@
+/**
+ * Canvas Modes
+ *
+ * Charts are drawn either on a light canvas (dark ink on paper) or on a dark one
+ * (light ink on a dashboard theme). The mode supplies the defaults that used to
+ * assume paper:
+ * - the default background colour,
+ * - the backdrop that transparent and translucent pixels are seen against,
+ * - the ink-mask overlay palette (see ./inkOverlay).
+ *
+ * Light mode keeps the original rules exactly: translucent pixels are measured by
+ * their raw colour and fully transparent ones are skipped. In dark mode translucent
+ * pixels are composited over their local background before measuring, since PNGs
+ * exported from dark themes often carry white or black RGB under low alpha.
+ */
+
+import { CanvasMode } from "../types";
+
+type RGB = { r: number; g: number; b: number };
+
+export const canvasModeLabels: Record<CanvasMode, string> = {
+  light: "Light Canvas",
+  dark: "Dark Canvas",
+};
+
+// Default background per mode; dark matches common dashboard themes (#121212)
+export const canvasModeBackgrounds: Record<CanvasMode, RGB> = {
+  light: { r: 255, g: 255, b: 255 },
+  dark: { r: 18, g: 18, b: 18 },
+};
+
+/**
+ * Whether `color` is one of the per-mode defaults, i.e. safe to replace when the mode changes.
+ */
+export function isCanvasModeBackground(color: RGB): boolean {
+  return Object.values(canvasModeBackgrounds).some(
+    (background) => background.r === color.r && background.g === color.g && background.b === color.b
+  );
+}
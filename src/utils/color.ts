@@ -0,0 +1,185 @@
+/**
+ * Colour Difference Models
+ * Shared by the analysis engine and the magic wand so thresholds mean the same thing everywhere.
+ *
+ * - "rgb":       Euclidean distance in sRGB (0-441). Fast, but not perceptually uniform.
+ * - "cie76":     Euclidean distance in CIE L*a*b* (ΔE*ab, ~2.3 is a just-noticeable difference).
+ * - "ciede2000": CIEDE2000 ΔE00, corrects CIE76 for hue/chroma/lightness non-uniformities.
+ *
+ * Each model measures in its own unit, so thresholds have a per-model scale
+ * (colorMetricScales); switching models converts them with convertThreshold.
+ */
+
+import { ColorMetric } from "../types";
+
+type RGB = { r: number; g: number; b: number };
+type Lab = { L: number; a: number; b: number };
+
+export const colorMetricLabels: Record<ColorMetric, string> = {
+  rgb: "RGB Euclidean",
+  cie76: "CIE76 (ΔE*ab)",
+  ciede2000: "CIEDE2000 (ΔE00)",
+};
+
+export interface ColorMetricScale {
+  defaultThreshold: number; // Ink threshold and wand tolerance
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+}
+
+// Defaults are about the same difference: #eeeeee on white is ~29 RGB, ~6 ΔE*ab and ~3.5 ΔE00
+export const colorMetricScales: Record<ColorMetric, ColorMetricScale> = {
+  rgb: { defaultThreshold: 30, min: 1, max: 100, step: 1, unit: "RGB" },
+  cie76: { defaultThreshold: 6, min: 0.5, max: 25, step: 0.5, unit: "ΔE*ab" },
+  ciede2000: { defaultThreshold: 4, min: 0.5, max: 20, step: 0.5, unit: "ΔE00" },
+};
+
+/**
+ * Carries a threshold over to another model, keeping its position relative to the
+ * model defaults (rounded to the new model's step and clamped to its range).
+ */
+export function convertThreshold(value: number, from: ColorMetric, to: ColorMetric): number {
+  if (from === to) return value;
+  const source = colorMetricScales[from], target = colorMetricScales[to];
+  const converted = Math.round((value / source.defaultThreshold) * target.defaultThreshold / target.step) * target.step;
+  return Math.min(target.max, Math.max(target.min, converted));
+}
+
+/**
+ * Converts an sRGB channel (0-255) to linear light.
+ */
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Converts sRGB (0-255) to CIE L*a*b* using the D65 white point.
+ */
+export function rgbToLab(r: number, g: number, b: number): Lab {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  // Linear sRGB -> XYZ, normalised by the D65 reference white
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / 0.95047;
+  const y = (lr * 0.2126729 + lg * 0.7151522 + lb * 0.0721750) / 1.0;
+  const z = (lr * 0.0193339 + lg * 0.1191920 + lb * 0.9503041) / 1.08883;
+
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const fx = f(x), fy = f(y), fz = f(z);
+
+  return {
+    L: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz),
+  };
+}
+
+/**
+ * CIE76 colour difference (Euclidean distance in Lab).
+ */
+export function deltaE76(lab1: Lab, lab2: Lab): number {
+  return Math.sqrt(
+    Math.pow(lab1.L - lab2.L, 2) +
+    Math.pow(lab1.a - lab2.a, 2) +
+    Math.pow(lab1.b - lab2.b, 2)
+  );
+}
+
+/**
+ * CIEDE2000 colour difference (Sharma, Wu & Dalal reference implementation, kL = kC = kH = 1).
+ */
+export function deltaE2000(lab1: Lab, lab2: Lab): number {
+  const deg = Math.PI / 180;
+  const C1 = Math.hypot(lab1.a, lab1.b);
+  const C2 = Math.hypot(lab2.a, lab2.b);
+  const Cbar = (C1 + C2) / 2;
+  const Cbar7 = Math.pow(Cbar, 7);
+  const G = 0.5 * (1 - Math.sqrt(Cbar7 / (Cbar7 + Math.pow(25, 7))));
+
+  const a1p = (1 + G) * lab1.a;
+  const a2p = (1 + G) * lab2.a;
+  const C1p = Math.hypot(a1p, lab1.b);
+  const C2p = Math.hypot(a2p, lab2.b);
+
+  const hueAngle = (bb: number, ap: number) => {
+    if (bb === 0 && ap === 0) return 0;
+    const h = Math.atan2(bb, ap) / deg;
+    return h >= 0 ? h : h + 360;
+  };
+  const h1p = hueAngle(lab1.b, a1p);
+  const h2p = hueAngle(lab2.b, a2p);
+
+  const dLp = lab2.L - lab1.L;
+  const dCp = C2p - C1p;
+
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * deg);
+
+  const Lbarp = (lab1.L + lab2.L) / 2;
+  const Cbarp = (C1p + C2p) / 2;
+
+  let hbarp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hbarp = (h1p + h2p) / 2;
+    else if (h1p + h2p < 360) hbarp = (h1p + h2p + 360) / 2;
+    else hbarp = (h1p + h2p - 360) / 2;
+  }
+
+  const T = 1
+    - 0.17 * Math.cos((hbarp - 30) * deg)
+    + 0.24 * Math.cos(2 * hbarp * deg)
+    + 0.32 * Math.cos((3 * hbarp + 6) * deg)
+    - 0.20 * Math.cos((4 * hbarp - 63) * deg);
+
+  const dTheta = 30 * Math.exp(-Math.pow((hbarp - 275) / 25, 2));
+  const Cbarp7 = Math.pow(Cbarp, 7);
+  const Rc = 2 * Math.sqrt(Cbarp7 / (Cbarp7 + Math.pow(25, 7)));
+  const Sl = 1 + (0.015 * Math.pow(Lbarp - 50, 2)) / Math.sqrt(20 + Math.pow(Lbarp - 50, 2));
+  const Sc = 1 + 0.045 * Cbarp;
+  const Sh = 1 + 0.015 * Cbarp * T;
+  const Rt = -Math.sin(2 * dTheta * deg) * Rc;
+
+  return Math.sqrt(
+    Math.pow(dLp / Sl, 2) +
+    Math.pow(dCp / Sc, 2) +
+    Math.pow(dHp / Sh, 2) +
+    Rt * (dCp / Sc) * (dHp / Sh)
+  );
+}
+
+/**
+ * Builds a distance function measuring how far a pixel colour is from a fixed
+ * reference colour under the chosen model. The reference is converted once, so
+ * this is the preferred entry point inside per-pixel loops.
+ */
+export function createColorDistance(
+  reference: RGB,
+  metric: ColorMetric = "rgb"
+): (r: number, g: number, b: number) => number {
+  if (metric === "rgb") {
+    return (r, g, b) => Math.sqrt(
+      Math.pow(r - reference.r, 2) +
+      Math.pow(g - reference.g, 2) +
+      Math.pow(b - reference.b, 2)
+    );
+  }
+  const refLab = rgbToLab(reference.r, reference.g, reference.b);
+  const delta = metric === "cie76" ? deltaE76 : deltaE2000;
+  return (r, g, b) => delta(rgbToLab(r, g, b), refLab);
+}
+
+/**
+ * Colour difference between two sRGB colours under the chosen model.
+ */
+export function colorDifference(c1: RGB, c2: RGB, metric: ColorMetric = "rgb"): number {
+  return createColorDistance(c2, metric)(c1.r, c1.g, c1.b);
+}
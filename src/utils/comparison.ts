@@ -3,8 +3,8 @@
  * Compares user visualizations against reference visualizations
  */
 
-import { AnalysisResult } from "@/types";
-import { ComparisonResult, ReferenceVisualization } from "@/types/comparison";
+import { AnalysisResult } from "../types";
+import { ComparisonResult, ReferenceVisualization } from "../types/comparison";
 
 /**
  * Calculate comparison metrics between user and reference results
@@ -148,7 +148,9 @@ function generateInterpretation(
            // Add specific advice based on common non-data labels
            const topLabelLower = nonDataLayers[0].label.toLowerCase();
            if (topLabelLower.includes("grid")) recommendations.push("Try using lighter gridlines, fewer lines, dashed lines, or removing them if possible.");
-           if (topLabelLower.includes("background")) recommendations.push("Consider using a transparent or plain white/light background.");
+           if (topLabelLower.includes("background")) recommendations.push(reference.canvasMode === "dark"
+               ? "Consider using a transparent or plain, flat dark background without panels or gradients."
+               : "Consider using a transparent or plain white/light background.");
            if (topLabelLower.includes("border") || topLabelLower.includes("frame")) recommendations.push("Remove or lighten chart borders/frames.");
            if (topLabelLower.includes("legend")) recommendations.push("Explore direct labeling of data series instead of using a separate legend.");
        }
@@ -162,7 +164,9 @@ function generateInterpretation(
       recommendations.push("Your design appears less efficient than typical examples. Review standard chart conventions for this type.");
   } else if (reference.type === "best-practice" && (grade === 'fair' || grade === 'poor')) {
        recommendations.push("Apply Tufte's principles rigorously: erase non-data ink, erase redundant data ink.");
-       recommendations.push("Use subtle visual cues (light gray, thin lines) for necessary structural elements like axes or minimal gridlines.");
+       recommendations.push(reference.canvasMode === "dark"
+           ? "Use subtle visual cues (dim gray, thin lines) for necessary structural elements like axes or minimal gridlines."
+           : "Use subtle visual cues (light gray, thin lines) for necessary structural elements like axes or minimal gridlines.");
   }
 
   // Add encouraging/summary message
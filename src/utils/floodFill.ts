@@ -3,10 +3,9 @@
  * Finds a contiguous region of similar color starting from a seed point.
  */
 
-interface Point {
-  x: number;
-  y: number;
-}
+import { ColorMetric, PixelBuffer, SelectionMask } from "../types";
+import { encodeMask } from "./mask";
+import { createColorDistance } from "./color";
 
 interface BoundingBox {
   minX: number;
@@ -16,39 +15,39 @@ interface BoundingBox {
 }
 
 /**
- * Calculate the Euclidean distance between two colors in RGB space.
+ * The filled region: its tight bounding box plus the exact pixel mask,
+ * anchored at (minX, minY).
  */
-function colorDistance(
-  r1: number, g1: number, b1: number,
-  r2: number, g2: number, b2: number
-): number {
-  // Simple Euclidean distance
-  return Math.sqrt(
-    Math.pow(r1 - r2, 2) +
-    Math.pow(g1 - g2, 2) +
-    Math.pow(b1 - b2, 2)
-  );
+export interface FloodFillRegion extends BoundingBox {
+  mask: SelectionMask;
+  pixelCount: number;
 }
 
 /**
- * Performs a flood fill (scanline variant for potential performance improvement, though simpler 4-way used here)
+ * Performs a 4-way flood fill over typed-array state buffers
  * to find a contiguous region of pixels similar in color to the starting pixel.
- * Ignores transparency and respects a color tolerance threshold.
+ * Ignores transparency and respects a color tolerance threshold. With a `backdrop`
+ * (dark canvases) pixels are instead composited over it, so transparent areas fill
+ * like the backdrop colour they show.
  *
- * @param imageData - The ImageData object of the image.
+ * @param imageData - The RGBA pixels of the image.
  * @param startX - The starting X coordinate for the fill.
  * @param startY - The starting Y coordinate for the fill.
  * @param tolerance - The maximum color distance allowed for pixels to be included in the region.
+ * @param colorMetric - The colour-difference model used to compare pixels with the seed colour.
+ * @param backdrop - Colour translucent pixels are composited over, or null to skip transparent pixels.
  * @param minRegionSize - The minimum number of pixels required for a region to be considered valid.
- * @returns A BoundingBox object encompassing the filled region, or null if the region is too small or invalid.
+ * @returns The filled region (bounding box and pixel mask), or null if the region is too small or invalid.
  */
 export function floodFill(
-  imageData: ImageData,
+  imageData: PixelBuffer,
   startX: number,
   startY: number,
   tolerance: number = 30, // Default tolerance
+  colorMetric: ColorMetric = "rgb",
+  backdrop: { r: number; g: number; b: number } | null = null,
   minRegionSize: number = 10 // Minimum pixels for a valid region
-): BoundingBox | null {
+): FloodFillRegion | null {
   const { width, height, data } = imageData;
 
   // Ensure start point is within image bounds
@@ -57,23 +56,34 @@ export function floodFill(
     return null;
   }
 
+  // Colour a pixel shows over the backdrop (only used when a backdrop is given)
+  const composite = (idx: number, channel: number, backdropChannel: number) => {
+    const alpha = data[idx + 3] / 255;
+    return data[idx + channel] * alpha + backdropChannel * (1 - alpha);
+  };
+
   // Get the color and alpha of the starting pixel
   const startIdx = (startY * width + startX) * 4;
-  const targetR = data[startIdx];
-  const targetG = data[startIdx + 1];
-  const targetB = data[startIdx + 2];
+  const targetR = backdrop ? composite(startIdx, 0, backdrop.r) : data[startIdx];
+  const targetG = backdrop ? composite(startIdx, 1, backdrop.g) : data[startIdx + 1];
+  const targetB = backdrop ? composite(startIdx, 2, backdrop.b) : data[startIdx + 2];
   const targetA = data[startIdx + 3];
+  const distanceFromTarget = createColorDistance({ r: targetR, g: targetG, b: targetB }, colorMetric);
 
-  // Do not fill from a transparent or nearly transparent area
-  if (targetA < 13) { // ~5% opacity threshold
+  // Do not fill from a transparent or nearly transparent area (unless it shows the backdrop)
+  if (!backdrop && targetA < 13) { // ~5% opacity threshold
     console.warn("Flood fill cannot start on a transparent pixel.");
     return null;
   }
 
-  // Use a Set to keep track of visited pixels efficiently (key: "x,y")
-  const visited = new Set<string>();
-  // Use a stack for the iterative flood fill process
-  const stack: Point[] = [{ x: startX, y: startY }];
+  // Per-pixel state, indexed by y * width + x: 0 = unseen, 1 = in region, 2 = rejected.
+  // Each pixel is tested at most once, when it is first reached.
+  const UNSEEN = 0, FILLED = 1, REJECTED = 2;
+  const state = new Uint8Array(width * height);
+  // Stack of pixel indices awaiting neighbour expansion; each pixel is pushed at most once.
+  const stack = new Int32Array(width * height);
+  let stackSize = 0;
+  let pixelCount = 0;
 
   // Initialize bounding box coordinates
   let minX = startX;
@@ -81,62 +91,79 @@ export function floodFill(
   let minY = startY;
   let maxY = startY;
 
-  // Flood fill algorithm (4-connectivity)
-  while (stack.length > 0) {
-    const point = stack.pop()!; // Non-null assertion as stack.length > 0
-    const { x, y } = point;
-
+  // Tests a pixel against the transparency and tolerance rules, queueing it if it belongs to the region.
+  const visit = (x: number, y: number) => {
     // 1. Boundary Check: Skip if pixel is outside image bounds
-    if (x < 0 || x >= width || y < 0 || y >= height) continue;
+    if (x < 0 || x >= width || y < 0 || y >= height) return;
 
-    // 2. Visited Check: Skip if pixel has already been processed
-    const key = `${x},${y}`;
-    if (visited.has(key)) continue;
+    // 2. Visited Check: Skip if pixel has already been tested
+    const pixelIndex = y * width + x;
+    if (state[pixelIndex] !== UNSEEN) return;
 
     // 3. Color Check: Get current pixel's color and alpha
-    const idx = (y * width + x) * 4;
-    const r = data[idx];
-    const g = data[idx + 1];
-    const b = data[idx + 2];
+    const idx = pixelIndex * 4;
     const a = data[idx + 3];
 
-    // 4. Transparency Check: Skip transparent pixels
-    if (a < 13) continue; // ~5% opacity
-
+    // 4. Transparency Check: Skip transparent pixels (~5% opacity), or composite them over the backdrop
     // 5. Tolerance Check: Calculate color distance and skip if too different
-    const distance = colorDistance(r, g, b, targetR, targetG, targetB);
-    if (distance > tolerance) continue; // Use the tolerance parameter
+    const distance = backdrop
+      ? distanceFromTarget(composite(idx, 0, backdrop.r), composite(idx, 1, backdrop.g), composite(idx, 2, backdrop.b))
+      : distanceFromTarget(data[idx], data[idx + 1], data[idx + 2]);
+    if ((!backdrop && a < 13) || distance > tolerance) {
+      state[pixelIndex] = REJECTED;
+      return;
+    }
 
     // --- Pixel is valid ---
 
-    // 6. Mark as visited
-    visited.add(key);
+    // 6. Mark as filled and queue for expansion
+    state[pixelIndex] = FILLED;
+    stack[stackSize++] = pixelIndex;
+    pixelCount++;
 
     // 7. Update Bounding Box: Expand bounds if necessary
-    minX = Math.min(minX, x);
-    maxX = Math.max(maxX, x);
-    minY = Math.min(minY, y);
-    maxY = Math.max(maxY, y);
-
-    // 8. Add Neighbors: Push adjacent pixels (up, down, left, right) onto the stack
-    stack.push({ x: x + 1, y });
-    stack.push({ x: x - 1, y });
-    stack.push({ x, y: y + 1 });
-    stack.push({ x, y: y - 1 });
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+  };
+
+  // Flood fill algorithm (4-connectivity)
+  visit(startX, startY);
+  while (stackSize > 0) {
+    const pixelIndex = stack[--stackSize];
+    const x = pixelIndex % width;
+    const y = (pixelIndex - x) / width;
+
+    // 8. Add Neighbors: Test adjacent pixels (right, left, down, up)
+    visit(x + 1, y);
+    visit(x - 1, y);
+    visit(x, y + 1);
+    visit(x, y - 1);
   }
 
   // 9. Minimum Size Check: If the filled region is too small, return null
-  if (visited.size < minRegionSize) {
-    console.log(`Flood fill region too small: ${visited.size} pixels (min ${minRegionSize})`);
+  if (pixelCount < minRegionSize) {
+    console.log(`Flood fill region too small: ${pixelCount} pixels (min ${minRegionSize})`);
     return null;
   }
 
-  // 10. Return Bounding Box: Add a small padding for the selection box
-  const padding = 2; // Small padding around the detected region
+  // 10. Build Mask: Copy the filled pixels inside the tight bounding box
+  const maskWidth = maxX - minX + 1;
+  const maskHeight = maxY - minY + 1;
+  const bits = new Uint8Array(maskWidth * maskHeight);
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (state[y * width + x] === FILLED) bits[(y - minY) * maskWidth + (x - minX)] = 1;
+    }
+  }
+
   return {
-    minX: Math.max(0, minX - padding),
-    maxX: Math.min(width - 1, maxX + padding),
-    minY: Math.max(0, minY - padding),
-    maxY: Math.min(height - 1, maxY + padding),
+    minX,
+    maxX,
+    minY,
+    maxY,
+    mask: encodeMask(bits, maskWidth, maskHeight),
+    pixelCount,
   };
 }
\ No newline at end of file
@@ -0,0 +1,173 @@
+/**
+ * Selection Geometry Helpers
+ * Shape-aware hit testing and transforms shared by the canvas and the analysis engine.
+ */
+
+import { Point, SelectionBox } from "../types";
+import { countMaskPixels, decodeMask, isMaskPixelSet } from "./mask";
+
+/**
+ * Ray-casting point-in-polygon test (even-odd rule).
+ */
+export function isPointInPolygon(x: number, y: number, points: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const xi = points[i].x, yi = points[i].y;
+    const xj = points[j].x, yj = points[j].y;
+    const intersects = (yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
+    if (intersects) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * True if the selection is a polygon with enough vertices to enclose an area.
+ */
+export function isPolygonSelection(selection: SelectionBox): boolean {
+  return selection.shape === "polygon" && !!selection.points && selection.points.length >= 3;
+}
+
+/**
+ * True if the selection is backed by a pixel mask.
+ */
+export function isMaskSelection(selection: SelectionBox): boolean {
+  return selection.shape === "mask" && !!selection.mask;
+}
+
+/**
+ * Checks whether an image-space point lies inside a selection, honouring its shape.
+ */
+export function isPointInSelection(selection: SelectionBox, x: number, y: number): boolean {
+  if (isPolygonSelection(selection)) {
+    return isPointInPolygon(x, y, selection.points!);
+  }
+  if (isMaskSelection(selection)) {
+    return isMaskPixelSet(selection.mask!, Math.floor(x) - Math.round(selection.x), Math.floor(y) - Math.round(selection.y));
+  }
+  return x >= selection.x && x <= selection.x + selection.width && y >= selection.y && y <= selection.y + selection.height;
+}
+
+/**
+ * Integer pixel range [x1, x2) x [y1, y2) a selection can claim, clamped to the image.
+ * Rectangles cover every pixel they touch; masks map 1:1 onto whole pixels from their rounded anchor.
+ */
+export function getSelectionPixelBounds(
+  selection: SelectionBox,
+  imageWidth: number,
+  imageHeight: number
+): { x1: number; y1: number; x2: number; y2: number } {
+  const { x, y, width: w, height: h } = selection;
+  if (isMaskSelection(selection)) {
+    const maskX = Math.round(x);
+    const maskY = Math.round(y);
+    return {
+      x1: Math.max(0, maskX),
+      y1: Math.max(0, maskY),
+      x2: Math.min(imageWidth, maskX + selection.mask!.width),
+      y2: Math.min(imageHeight, maskY + selection.mask!.height),
+    };
+  }
+  return {
+    x1: Math.max(0, Math.floor(x)),
+    y1: Math.max(0, Math.floor(y)),
+    x2: Math.min(imageWidth, Math.ceil(x + w)), // Use ceil for end boundary
+    y2: Math.min(imageHeight, Math.ceil(y + h)),
+  };
+}
+
+/**
+ * Builds a per-pixel membership test for non-rectangular selections, to be applied
+ * within getSelectionPixelBounds. Returns null for rectangles, which own their whole bounds.
+ * Polygons own pixels whose centre is inside the outline; masks own their set cells.
+ */
+export function createPixelTest(selection: SelectionBox): ((px: number, py: number) => boolean) | null {
+  if (isPolygonSelection(selection)) {
+    const points = selection.points!;
+    return (px, py) => isPointInPolygon(px + 0.5, py + 0.5, points);
+  }
+  if (isMaskSelection(selection)) {
+    const mask = selection.mask!;
+    const bits = decodeMask(mask);
+    const maskX = Math.round(selection.x);
+    const maskY = Math.round(selection.y);
+    return (px, py) => {
+      const mx = px - maskX;
+      const my = py - maskY;
+      return mx >= 0 && my >= 0 && mx < mask.width && my < mask.height && bits[my * mask.width + mx] === 1;
+    };
+  }
+  return null;
+}
+
+/**
+ * Axis-aligned bounding box of a list of points.
+ */
+export function getPolygonBounds(points: Point[]): { x: number; y: number; width: number; height: number } {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  points.forEach(p => {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Enclosed area of a polygon (shoelace formula).
+ */
+export function getPolygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    area += (points[j].x + points[i].x) * (points[j].y - points[i].y);
+  }
+  return Math.abs(area / 2);
+}
+
+/**
+ * Area covered by a selection in square pixels.
+ */
+export function getSelectionArea(selection: SelectionBox): number {
+  if (isPolygonSelection(selection)) return getPolygonArea(selection.points!);
+  if (isMaskSelection(selection)) return countMaskPixels(selection.mask!);
+  return selection.width * selection.height;
+}
+
+/**
+ * Moves a selection by (dx, dy), shifting polygon vertices along with the bounding box.
+ */
+export function translateSelection(selection: SelectionBox, dx: number, dy: number): SelectionBox {
+  return {
+    ...selection,
+    x: selection.x + dx,
+    y: selection.y + dy,
+    points: selection.points?.map(p => ({ x: p.x + dx, y: p.y + dy })),
+  };
+}
+
+/**
+ * Applies a new bounding box to a selection. Polygon vertices are scaled
+ * proportionally from the old bounding box into the new one. Masks are
+ * pixel-exact and cannot be resized.
+ */
+export function resizeSelection(
+  selection: SelectionBox,
+  bounds: { x: number; y: number; width: number; height: number }
+): SelectionBox {
+  if (isMaskSelection(selection)) {
+    return selection;
+  }
+  if (!isPolygonSelection(selection)) {
+    return { ...selection, ...bounds };
+  }
+  const sx = selection.width !== 0 ? bounds.width / selection.width : 1;
+  const sy = selection.height !== 0 ? bounds.height / selection.height : 1;
+  return {
+    ...selection,
+    ...bounds,
+    points: selection.points!.map(p => ({
+      x: bounds.x + (p.x - selection.x) * sx,
+      y: bounds.y + (p.y - selection.y) * sy,
+    })),
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Persistent Image Store
+ *
+ * Uploaded images are kept in IndexedDB, keyed by the SHA-256 of their bytes, so a
+ * session saved in localStorage can point at its image by hash and survive reloads
+ * (blob: URLs die with the page). Identical uploads share one record.
+ *
+ * Every call fails soft at the call site: callers treat a rejected promise as
+ * "not persisted" and keep working with the in-memory image.
+ */
+
+const DB_NAME = "data-ink-calculator";
+const DB_VERSION = 1;
+const STORE_NAME = "images";
+
+export interface StoredImage {
+  hash: string; // Hex SHA-256 of the image bytes (the key)
+  blob: Blob;
+  name: string;
+  storedAt: number; // Epoch milliseconds
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "hash" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Could not open the image store."));
+  }).catch((error) => {
+    dbPromise = null; // Allow a later retry
+    throw error;
+  });
+  return dbPromise;
+}
+
+/**
+ * Runs one request in a transaction and resolves with its result once the transaction commits.
+ */
+async function runRequest<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = makeRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error ?? new Error("Image store request failed."));
+    transaction.onabort = () => reject(transaction.error ?? new Error("Image store transaction aborted."));
+  });
+}
+
+/**
+ * Hex SHA-256 of a blob's bytes.
+ */
+export async function hashImageBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Stores an image (once per content hash) and resolves with its hash.
+ */
+export async function storeImage(blob: Blob, name = ""): Promise<string> {
+  const hash = await hashImageBlob(blob);
+  const existing = await runRequest("readonly", (store) => store.getKey(hash));
+  if (existing === undefined) {
+    const record: StoredImage = { hash, blob, name, storedAt: Date.now() };
+    await runRequest("readwrite", (store) => store.put(record));
+  }
+  return hash;
+}
+
+/**
+ * The stored image for a hash, or null if it was never stored or has been collected.
+ */
+export async function loadStoredImage(hash: string): Promise<Blob | null> {
+  const record = await runRequest<StoredImage | undefined>("readonly", (store) => store.get(hash));
+  return record?.blob ?? null;
+}
+
+/**
+ * Deletes every stored image whose hash is not in `keep`. Resolves with the number deleted.
+ */
+export async function collectUnusedImages(keep: string[] = []): Promise<number> {
+  const keys = await runRequest("readonly", (store) => store.getAllKeys());
+  const unused = keys.filter((key) => !keep.includes(String(key)));
+  if (unused.length === 0) return 0;
+  await runRequest("readwrite", (store) => {
+    let request: IDBRequest<undefined> = store.delete(unused[0]);
+    unused.slice(1).forEach((key) => { request = store.delete(key); });
+    return request;
+  });
+  return unused.length;
+}
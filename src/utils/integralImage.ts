@@ -0,0 +1,239 @@
+/**
+ * Ink Integral Image (Summed-Area Table)
+ *
+ * Built once per (image, background, threshold, colour model) combination so the
+ * ink count of any axis-aligned rectangle is an O(1) lookup. Used for live,
+ * provisional statistics while boxes are drawn or resized, before "Run Analysis".
+ *
+ * Layer overlap is resolved exactly with the same topmost-wins rule as
+ * analyzeImage: rectangles are split into disjoint fragments around the
+ * rectangles above them, and polygon/mask layers fall back to a per-pixel scan
+ * limited to the area they actually overlap.
+ */
+
+import { SelectionBox } from "@/types";
+import { createPixelTest, getSelectionPixelBounds, isMaskSelection, isPolygonSelection } from "./geometry";
+
+export interface InkIntegral {
+  width: number;
+  height: number;
+  inkMap: Uint8Array; // Row-major, 1 = ink
+  sums: Int32Array; // (width + 1) x (height + 1), sums[y][x] = ink in [0, x) x [0, y)
+  totalInkPixels: number;
+}
+
+export interface LiveLayerStats {
+  id: string;
+  totalPixels: number;
+  inkPixels: number;
+}
+
+export interface LiveAnalysisStats {
+  layers: LiveLayerStats[]; // Same order as the input selections
+  totalDataPixels: number;
+  efficiencyRatio: number;
+}
+
+/** Half-open integer rectangle [x1, x2) x [y1, y2). */
+export interface PixelRect {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Builds the summed-area table for an ink map.
+ */
+export function buildInkIntegral(
+  inkMap: Uint8Array,
+  width: number,
+  height: number,
+  totalInkPixels: number
+): InkIntegral {
+  const stride = width + 1;
+  const sums = new Int32Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += inkMap[y * width + x];
+      sums[(y + 1) * stride + (x + 1)] = sums[y * stride + (x + 1)] + rowSum;
+    }
+  }
+  return { width, height, inkMap, sums, totalInkPixels };
+}
+
+/**
+ * Number of ink pixels in the half-open rectangle [x1, x2) x [y1, y2), clamped to the image.
+ */
+export function countInkInRect(integral: InkIntegral, x1: number, y1: number, x2: number, y2: number): number {
+  const { width, height, sums } = integral;
+  const left = Math.max(0, Math.min(width, x1));
+  const right = Math.max(0, Math.min(width, x2));
+  const top = Math.max(0, Math.min(height, y1));
+  const bottom = Math.max(0, Math.min(height, y2));
+  if (right <= left || bottom <= top) return 0;
+  const stride = width + 1;
+  return sums[bottom * stride + right] - sums[top * stride + right] - sums[bottom * stride + left] + sums[top * stride + left];
+}
+
+// Rasterised polygon/mask membership, cached per selection object so unchanged
+// layers are not re-rasterised on every live update.
+const shapeRasterCache = new WeakMap<SelectionBox, { bounds: PixelRect; bits: Uint8Array }>();
+
+/**
+ * Polygon/mask membership over `bounds` (from getSelectionPixelBounds), row-major, 1 = inside.
+ */
+export function getShapeRaster(selection: SelectionBox, bounds: PixelRect): Uint8Array {
+  const cached = shapeRasterCache.get(selection);
+  if (cached && cached.bounds.x1 === bounds.x1 && cached.bounds.y1 === bounds.y1 &&
+      cached.bounds.x2 === bounds.x2 && cached.bounds.y2 === bounds.y2) {
+    return cached.bits;
+  }
+  const contains = createPixelTest(selection)!;
+  const rasterWidth = bounds.x2 - bounds.x1;
+  const bits = new Uint8Array(rasterWidth * (bounds.y2 - bounds.y1));
+  for (let py = bounds.y1; py < bounds.y2; py++) {
+    for (let px = bounds.x1; px < bounds.x2; px++) {
+      if (contains(px, py)) bits[(py - bounds.y1) * rasterWidth + (px - bounds.x1)] = 1;
+    }
+  }
+  shapeRasterCache.set(selection, { bounds, bits });
+  return bits;
+}
+
+// Shape-ownership scratch buffer, one per integral: reused across live updates and
+// cleared over the touched shape bounds only, so a mouse move neither allocates nor
+// zero-fills a full-image array.
+const shapeOwnedScratch = new WeakMap<InkIntegral, Uint8Array>();
+
+function getShapeOwnedScratch(integral: InkIntegral): Uint8Array {
+  let scratch = shapeOwnedScratch.get(integral);
+  if (!scratch) {
+    scratch = new Uint8Array(integral.width * integral.height);
+    shapeOwnedScratch.set(integral, scratch);
+  }
+  return scratch;
+}
+
+function intersects(a: PixelRect, b: PixelRect): boolean {
+  return a.x1 < b.x2 && b.x1 < a.x2 && a.y1 < b.y2 && b.y1 < a.y2;
+}
+
+/**
+ * Splits `a` into up to four disjoint rectangles covering a minus b.
+ */
+function subtractRect(a: PixelRect, b: PixelRect): PixelRect[] {
+  if (!intersects(a, b)) return [a];
+  const pieces: PixelRect[] = [];
+  const midTop = Math.max(a.y1, b.y1);
+  const midBottom = Math.min(a.y2, b.y2);
+  if (a.y1 < b.y1) pieces.push({ x1: a.x1, y1: a.y1, x2: a.x2, y2: b.y1 }); // Above b
+  if (b.y2 < a.y2) pieces.push({ x1: a.x1, y1: b.y2, x2: a.x2, y2: a.y2 }); // Below b
+  if (a.x1 < b.x1) pieces.push({ x1: a.x1, y1: midTop, x2: b.x1, y2: midBottom }); // Left of b
+  if (b.x2 < a.x2) pieces.push({ x1: b.x2, y1: midTop, x2: a.x2, y2: midBottom }); // Right of b
+  return pieces;
+}
+
+/**
+ * Computes exact per-layer pixel and ink counts (topmost layer wins) from the integral image.
+ */
+export function estimateLayerStats(integral: InkIntegral, selections: SelectionBox[]): LiveAnalysisStats {
+  const { width, height, inkMap } = integral;
+  const claimedRects: PixelRect[] = []; // Rectangle layers above the current one
+  const claimedShapeBounds: PixelRect[] = []; // Bounds of polygon/mask layers above
+  let shapeOwned: Uint8Array | null = null; // Pixels owned by polygon/mask layers above (scratch, fetched on first use)
+
+  const layers: LiveLayerStats[] = new Array(selections.length);
+
+  for (let i = selections.length - 1; i >= 0; i--) {
+    const selection = selections[i];
+    const bounds = getSelectionPixelBounds(selection, width, height);
+    const isShape = isPolygonSelection(selection) || isMaskSelection(selection);
+    let totalPixels = 0;
+    let inkPixels = 0;
+
+    if (bounds.x2 > bounds.x1 && bounds.y2 > bounds.y1) {
+      if (!isShape) {
+        // Rectangle: O(1) lookups over the fragments not covered by rectangles above
+        let fragments: PixelRect[] = [bounds];
+        claimedRects.forEach(rect => {
+          fragments = fragments.flatMap(fragment => subtractRect(fragment, rect));
+        });
+
+        fragments.forEach(fragment => {
+          totalPixels += (fragment.x2 - fragment.x1) * (fragment.y2 - fragment.y1);
+          inkPixels += countInkInRect(integral, fragment.x1, fragment.y1, fragment.x2, fragment.y2);
+
+          // Remove pixels already owned by polygon/mask layers above (scan only the overlap)
+          claimedShapeBounds.forEach(shapeBounds => {
+            if (!intersects(shapeBounds, fragment)) return;
+            for (let py = Math.max(fragment.y1, shapeBounds.y1); py < Math.min(fragment.y2, shapeBounds.y2); py++) {
+              for (let px = Math.max(fragment.x1, shapeBounds.x1); px < Math.min(fragment.x2, shapeBounds.x2); px++) {
+                const pixelIndex = py * width + px;
+                if (shapeOwned![pixelIndex] === 1) {
+                  shapeOwned![pixelIndex] = 2; // Counted once even where shape bounds overlap
+                  totalPixels--;
+                  inkPixels -= inkMap[pixelIndex];
+                }
+              }
+            }
+          });
+        });
+        // Restore the marks for the layers below
+        if (shapeOwned) {
+          const owned = shapeOwned;
+          claimedShapeBounds.forEach(shapeBounds => {
+            for (let py = Math.max(bounds.y1, shapeBounds.y1); py < Math.min(bounds.y2, shapeBounds.y2); py++) {
+              for (let px = Math.max(bounds.x1, shapeBounds.x1); px < Math.min(bounds.x2, shapeBounds.x2); px++) {
+                if (owned[py * width + px] === 2) owned[py * width + px] = 1;
+              }
+            }
+          });
+        }
+        claimedRects.push(bounds);
+      } else {
+        // Polygon/mask: per-pixel scan, skipping pixels owned by any layer above
+        shapeOwned ??= getShapeOwnedScratch(integral);
+        const bits = getShapeRaster(selection, bounds);
+        const rasterWidth = bounds.x2 - bounds.x1;
+        for (let py = bounds.y1; py < bounds.y2; py++) {
+          const rowRects = claimedRects.filter(r => py >= r.y1 && py < r.y2);
+          for (let px = bounds.x1; px < bounds.x2; px++) {
+            if (bits[(py - bounds.y1) * rasterWidth + (px - bounds.x1)] === 0) continue;
+            const pixelIndex = py * width + px;
+            if (shapeOwned[pixelIndex] !== 0) continue;
+            if (rowRects.some(r => px >= r.x1 && px < r.x2)) continue;
+            shapeOwned[pixelIndex] = 1;
+            totalPixels++;
+            inkPixels += inkMap[pixelIndex];
+          }
+        }
+        claimedShapeBounds.push(bounds);
+      }
+    }
+
+    layers[i] = {
+      id: selection.id,
+      totalPixels,
+      inkPixels: selection.countFullArea ? totalPixels : inkPixels,
+    };
+  }
+
+  // Leave the scratch buffer zeroed for the next call
+  if (shapeOwned) {
+    const owned = shapeOwned;
+    claimedShapeBounds.forEach(shapeBounds => {
+      for (let py = shapeBounds.y1; py < shapeBounds.y2; py++) {
+        owned.fill(0, py * width + shapeBounds.x1, py * width + shapeBounds.x2);
+      }
+    });
+  }
+
+  const totalDataPixels = layers.reduce((sum, layer, i) => sum + (selections[i].isData ? layer.inkPixels : 0), 0);
+  return {
+    layers,
+    totalDataPixels,
+    efficiencyRatio: integral.totalInkPixels > 0 ? totalDataPixels / integral.totalInkPixels : 0,
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Run-Length Encoded Selection Masks
+ * Compact, JSON-friendly storage for pixel-accurate selections (e.g. from the magic wand).
+ *
+ * Encoding: the mask covers a width x height grid scanned row by row.
+ * `runs` alternates lengths of unset and set pixels, always starting with an
+ * unset run (which may be 0).
+ */
+
+import { SelectionMask } from "../types";
+
+/**
+ * Encodes a row-major bitmap (non-zero = set) into a run-length mask.
+ */
+export function encodeMask(bits: Uint8Array, width: number, height: number): SelectionMask {
+  const runs: number[] = [];
+  const total = width * height;
+  let current = 0; // Runs start with "unset"
+  let length = 0;
+  for (let i = 0; i < total; i++) {
+    const value = bits[i] ? 1 : 0;
+    if (value === current) {
+      length++;
+    } else {
+      runs.push(length);
+      current = value;
+      length = 1;
+    }
+  }
+  runs.push(length);
+  return { width, height, runs };
+}
+
+/**
+ * Expands a run-length mask into a row-major bitmap (1 = set).
+ */
+export function decodeMask(mask: SelectionMask): Uint8Array {
+  const bits = new Uint8Array(mask.width * mask.height);
+  let pos = 0;
+  mask.runs.forEach((length, i) => {
+    if (i % 2 === 1) bits.fill(1, pos, Math.min(pos + length, bits.length));
+    pos += length;
+  });
+  return bits;
+}
+
+/**
+ * Number of set pixels in a mask.
+ */
+export function countMaskPixels(mask: SelectionMask): number {
+  let count = 0;
+  for (let i = 1; i < mask.runs.length; i += 2) count += mask.runs[i];
+  return count;
+}
+
+/**
+ * Checks a single mask cell without decoding the whole mask.
+ */
+export function isMaskPixelSet(mask: SelectionMask, mx: number, my: number): boolean {
+  if (mx < 0 || my < 0 || mx >= mask.width || my >= mask.height) return false;
+  const target = my * mask.width + mx;
+  let pos = 0;
+  for (let i = 0; i < mask.runs.length; i++) {
+    pos += mask.runs[i];
+    if (target < pos) return i % 2 === 1;
+  }
+  return false;
+}
@@ -0,0 +1,81 @@
+/**
+ * PDF Page Import
+ *
+ * Charts embedded in PDF reports are imported by rasterising one page locally with
+ * pdf.js (bundled, including its worker, so nothing is fetched over the network).
+ * The page becomes a PNG that goes through the regular upload pipeline; the source
+ * page and resolution are recorded in the session (see ImageSource).
+ *
+ * pdf.js is loaded on first use to keep it out of the main bundle.
+ */
+
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+export const PDF_MIME_TYPE = "application/pdf";
+export const PDF_DPI_OPTIONS = [72, 150, 300, 600];
+export const DEFAULT_PDF_DPI = 150;
+const PDF_POINTS_PER_INCH = 72;
+const MAX_PDF_RENDER_PIXELS = 40_000_000; // Keeps 600 DPI renders of large pages within canvas limits
+
+export type { PDFDocumentProxy };
+
+export function isPdfFile(file: File): boolean {
+  return file.type === PDF_MIME_TYPE || /\.pdf$/i.test(file.name);
+}
+
+/**
+ * Opens a PDF for page rendering. Call `destroy()` on the document when done.
+ */
+export async function openPdf(file: File): Promise<PDFDocumentProxy> {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  try {
+    return await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()), isEvalSupported: false }).promise;
+  } catch (error) {
+    throw new Error(`Could not open the PDF: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Pixel size of a page rendered at `dpi`, after the render-size cap.
+ */
+export async function getPdfPageSize(pdf: PDFDocumentProxy, pageNumber: number, dpi: number): Promise<{ width: number; height: number; scale: number }> {
+  const page = await pdf.getPage(pageNumber);
+  const base = page.getViewport({ scale: 1 });
+  let scale = dpi / PDF_POINTS_PER_INCH;
+  const pixels = base.width * base.height * scale * scale;
+  if (pixels > MAX_PDF_RENDER_PIXELS) scale *= Math.sqrt(MAX_PDF_RENDER_PIXELS / pixels);
+  return { width: Math.floor(base.width * scale), height: Math.floor(base.height * scale), scale };
+}
+
+/**
+ * Renders a page onto a white canvas at `dpi` (or at `maxWidth` pixels wide for previews).
+ */
+export async function renderPdfPage(
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  { dpi = DEFAULT_PDF_DPI, maxWidth }: { dpi?: number; maxWidth?: number } = {}
+): Promise<HTMLCanvasElement> {
+  const page = await pdf.getPage(pageNumber);
+  const scale = maxWidth
+    ? maxWidth / page.getViewport({ scale: 1 }).width
+    : (await getPdfPageSize(pdf, pageNumber, dpi)).scale;
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  await page.render({ canvas, viewport, background: "white" }).promise;
+  return canvas;
+}
+
+/**
+ * Renders a page at `dpi` into a PNG file named after the PDF and page.
+ */
+export async function rasterizePdfPage(pdf: PDFDocumentProxy, pdfName: string, pageNumber: number, dpi: number): Promise<File> {
+  const canvas = await renderPdfPage(pdf, pageNumber, { dpi });
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("Could not encode the rendered page.");
+  const baseName = pdfName.replace(/\.pdf$/i, "") || "document";
+  return new File([blob], `${baseName}-page-${pageNumber}.png`, { type: "image/png" });
+}
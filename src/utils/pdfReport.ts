@@ -0,0 +1,229 @@
+/**
+ * PDF Report
+ *
+ * A printable A4 version of the audit report (see ./report), generated in the browser
+ * with jsPDF: the annotated chart, verdict, Layer Breakdown, Summary stats, improvement
+ * suggestions and, when one was run, the comparison grade and insights.
+ *
+ * jsPDF is loaded on first use to keep it out of the main bundle. Its standard fonts
+ * only cover Latin-1, so text is normalised before it is written.
+ */
+
+import type { jsPDF } from "jspdf";
+import { ReportInput, getReportSections } from "./report";
+
+const PAGE_MARGIN = 15; // mm
+const LINE_HEIGHT = 5; // mm at the body font size
+const MAX_CHART_HEIGHT = 130; // mm; keeps the chart and the verdict on the first page
+
+type RGB = [number, number, number];
+
+const colors: Record<"text" | "muted" | "border" | "primary" | "critical" | "warning" | "tip", RGB> = {
+  text: [15, 23, 42],
+  muted: [100, 116, 139],
+  border: [226, 232, 240],
+  primary: [37, 99, 235],
+  critical: [220, 38, 38],
+  warning: [202, 138, 4],
+  tip: [37, 99, 235],
+};
+
+// Locale formatting may use narrow no-break spaces; the standard fonts lack them, dashes and "∞"
+const toPdfText = (text: string): string =>
+  text.replace(/[\u00a0\u202f]/g, " ").replace(/\u2013/g, "-").replace(/\u2014/g, " - ").replace(/\u221e/g, "inf");
+
+const hexToRgb = (hex: string): RGB => {
+  const value = parseInt(hex.slice(1, 7), 16);
+  return Number.isNaN(value) ? colors.muted : [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+/**
+ * Lays out the report on A4 pages and returns the PDF.
+ */
+export async function createPdfReport(input: ReportInput): Promise<Blob> {
+  const { jsPDF } = await import("jspdf");
+  const doc: jsPDF = new jsPDF({ unit: "mm", format: "a4", orientation: "portrait" });
+  const report = getReportSections(input);
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= pageHeight - PAGE_MARGIN) return;
+    doc.addPage();
+    y = PAGE_MARGIN;
+  };
+
+  const setFont = (size: number, style: "normal" | "bold" = "normal", color: RGB = colors.text) => {
+    doc.setFont("helvetica", style);
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+  };
+
+  // Wrapped paragraph at the current font, optionally indented
+  const paragraph = (text: string, indent = 0) => {
+    const lines: string[] = doc.splitTextToSize(toPdfText(text), contentWidth - indent);
+    lines.forEach(line => {
+      ensureSpace(LINE_HEIGHT);
+      doc.text(line, PAGE_MARGIN + indent, y, { baseline: "top" });
+      y += LINE_HEIGHT;
+    });
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(14);
+    y += 4;
+    setFont(13, "bold");
+    doc.text(toPdfText(text), PAGE_MARGIN, y, { baseline: "top" });
+    y += 7;
+    doc.setDrawColor(...colors.border);
+    doc.line(PAGE_MARGIN, y - 1, pageWidth - PAGE_MARGIN, y - 1);
+    y += 2;
+  };
+
+  // Label/value rows, values right-aligned
+  const statRows = (stats: { label: string; value: string }[]) => {
+    setFont(10);
+    stats.forEach(stat => {
+      ensureSpace(LINE_HEIGHT + 1);
+      doc.setTextColor(...colors.muted);
+      doc.text(toPdfText(stat.label), PAGE_MARGIN, y, { baseline: "top" });
+      doc.setTextColor(...colors.text);
+      doc.text(toPdfText(stat.value), pageWidth - PAGE_MARGIN, y, { baseline: "top", align: "right" });
+      y += LINE_HEIGHT + 1;
+    });
+  };
+
+  const bulletList = (items: { text: string; prefix?: string; color?: RGB }[]) => {
+    items.forEach(item => {
+      setFont(10, "normal", item.color ?? colors.text);
+      ensureSpace(LINE_HEIGHT);
+      doc.setFillColor(...(item.color ?? colors.text));
+      doc.circle(PAGE_MARGIN + 1.5, y + 1.8, 0.6, "F");
+      if (item.prefix) {
+        setFont(10, "bold", item.color ?? colors.text);
+        doc.text(toPdfText(item.prefix), PAGE_MARGIN + 5, y, { baseline: "top" });
+        const prefixWidth = doc.getTextWidth(toPdfText(item.prefix)) + 1.5;
+        setFont(10);
+        const [first, ...rest]: string[] = doc.splitTextToSize(toPdfText(item.text), contentWidth - 5 - prefixWidth);
+        doc.text(first ?? "", PAGE_MARGIN + 5 + prefixWidth, y, { baseline: "top" });
+        y += LINE_HEIGHT;
+        if (rest.length > 0) paragraph(rest.join(" "), 5);
+      } else {
+        setFont(10);
+        const lines: string[] = doc.splitTextToSize(toPdfText(item.text), contentWidth - 5);
+        lines.forEach((line, i) => {
+          if (i > 0) ensureSpace(LINE_HEIGHT);
+          doc.text(line, PAGE_MARGIN + 5, y, { baseline: "top" });
+          y += LINE_HEIGHT;
+        });
+      }
+      y += 1;
+    });
+  };
+
+  // Title and meta
+  setFont(18, "bold");
+  doc.text(report.title, PAGE_MARGIN, y, { baseline: "top" });
+  y += 9;
+  setFont(9, "normal", colors.muted);
+  paragraph(report.meta.map(item => `${item.label}: ${item.value}`).join("  ·  "));
+  y += 2;
+
+  // Efficiency and verdict
+  setFont(10, "normal", colors.muted);
+  doc.text("Data-Ink Efficiency Ratio", PAGE_MARGIN, y, { baseline: "top" });
+  y += 5;
+  setFont(26, "bold", colors.primary);
+  doc.text(report.efficiency, PAGE_MARGIN, y, { baseline: "top" });
+  const ratioWidth = doc.getTextWidth(report.efficiency);
+  if (report.verdict) {
+    setFont(12, "bold");
+    doc.text(toPdfText(report.verdict), PAGE_MARGIN + ratioWidth + 6, y + 3.5, { baseline: "top" });
+  }
+  y += 13;
+
+  // Annotated chart, scaled to the content width
+  if (input.annotatedUrl) {
+    const { width, height } = doc.getImageProperties(input.annotatedUrl);
+    const scale = Math.min(contentWidth / width, MAX_CHART_HEIGHT / height);
+    ensureSpace(height * scale + 4);
+    doc.addImage(input.annotatedUrl, "PNG", PAGE_MARGIN, y, width * scale, height * scale);
+    y += height * scale + 4;
+  }
+
+  // Layer Breakdown table
+  heading("Layer Breakdown");
+  const columns = [
+    { title: "Layer", x: PAGE_MARGIN + 5, align: "left" as const },
+    { title: "Classification", x: PAGE_MARGIN + 80, align: "left" as const },
+    { title: "Ink Pixels", x: PAGE_MARGIN + 140, align: "right" as const },
+    { title: "Share of Ink", x: pageWidth - PAGE_MARGIN, align: "right" as const },
+  ];
+  setFont(9, "bold", colors.muted);
+  columns.forEach(column => doc.text(column.title, column.x, y, { baseline: "top", align: column.align }));
+  y += LINE_HEIGHT + 1;
+  report.layers.forEach(layer => {
+    ensureSpace(LINE_HEIGHT + 1);
+    doc.setFillColor(...hexToRgb(layer.color));
+    doc.rect(PAGE_MARGIN, y + 0.6, 3, 3, "F");
+    setFont(10);
+    const label: string = doc.splitTextToSize(toPdfText(layer.label), 72)[0] ?? "";
+    doc.text(label, columns[0].x, y, { baseline: "top" });
+    doc.setTextColor(...colors.muted);
+    doc.text(toPdfText(layer.classification), columns[1].x, y, { baseline: "top" });
+    doc.setTextColor(...colors.text);
+    doc.text(layer.inkPixels, columns[2].x, y, { baseline: "top", align: "right" });
+    doc.text(toPdfText(layer.inkShare), columns[3].x, y, { baseline: "top", align: "right" });
+    y += LINE_HEIGHT + 1;
+  });
+
+  // Summary stats
+  heading("Summary");
+  statRows(report.stats);
+
+  // Suggestions
+  heading("Improvement Suggestions");
+  if (report.suggestions.length > 0) {
+    const labels = { critical: "Critical:", warning: "Warning:", tip: "Tip:" };
+    bulletList(report.suggestions.map(s => ({ prefix: labels[s.type], text: s.message, color: colors[s.type] })));
+  } else {
+    setFont(10, "normal", colors.muted);
+    paragraph(input.profile ? "No suggestions: the chart meets its profile's benchmarks." : "Select a chart type to get suggestions.");
+  }
+
+  // Comparison, only when one was run
+  if (report.comparison) {
+    const { comparison } = report;
+    heading("Comparison");
+    setFont(11, "bold");
+    paragraph(`${comparison.grade} match vs ${comparison.reference}`);
+    setFont(10);
+    paragraph(comparison.summary);
+    y += 2;
+    statRows(comparison.metrics);
+    if (comparison.insights.length > 0) {
+      y += 2;
+      setFont(11, "bold");
+      paragraph("Key Insights");
+      bulletList(comparison.insights.map(text => ({ text })));
+    }
+    if (comparison.recommendations.length > 0) {
+      y += 2;
+      setFont(11, "bold");
+      paragraph("Recommendations");
+      bulletList(comparison.recommendations.map(text => ({ text })));
+    }
+  }
+
+  // Page numbers
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    setFont(8, "normal", colors.muted);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - PAGE_MARGIN / 2, { align: "right" });
+  }
+
+  return doc.output("blob");
+}
@@ -0,0 +1,128 @@
+/**
+ * Project Bundles
+ *
+ * A project bundle is a .zip that carries everything needed to reopen an analysis
+ * on another machine: the original image bytes (a session JSON only references a
+ * blob: URL that dies with the page), the session (selections, thresholds,
+ * profile) and the last analysis result.
+ *
+ * Layout:
+ *   manifest.json  { format, manifestVersion, createdAt, image, session, result }
+ *   image.<ext>    original upload, stored uncompressed (already compressed)
+ *   session.json   same shape as the JSON export, without imageUrl
+ *   result.json    last AnalysisResult (only if one was current at export)
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { AnalysisResult } from "../types";
+import { SessionData } from "../types/app";
+import { parseSession } from "./session";
+
+export const PROJECT_BUNDLE_FORMAT = "data-ink-project";
+export const PROJECT_BUNDLE_VERSION = 1; // Bump when the layout changes; readers reject newer bundles
+
+const MANIFEST_PATH = "manifest.json";
+const SESSION_PATH = "session.json";
+const RESULT_PATH = "result.json";
+
+const imageExtensions: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/bmp": "bmp",
+  "image/svg+xml": "svg",
+};
+
+export interface ProjectManifest {
+  format: typeof PROJECT_BUNDLE_FORMAT;
+  manifestVersion: number;
+  createdAt: string; // ISO timestamp
+  image: { path: string; type: string; width: number; height: number };
+  session: string; // Path of the session file
+  result: string | null; // Path of the result file, null when no result was exported
+}
+
+export interface ProjectBundle {
+  manifest: ProjectManifest;
+  image: File;
+  session: SessionData;
+  result: AnalysisResult | null;
+}
+
+/**
+ * Whether a dropped or picked file looks like a project bundle (checked by name/type;
+ * the manifest is validated when it is read).
+ */
+export function isProjectBundleFile(file: File): boolean {
+  return /\.zip$/i.test(file.name) || file.type === "application/zip" || file.type === "application/x-zip-compressed";
+}
+
+/**
+ * Packs the image, session and last result into a .zip blob.
+ */
+export async function createProjectBundle(
+  image: Blob,
+  session: SessionData,
+  result: AnalysisResult | null
+): Promise<Blob> {
+  const type = image.type || "image/png";
+  const imagePath = `image.${imageExtensions[type] ?? "bin"}`;
+  const { imageUrl: _imageUrl, ...portableSession } = session; // The URL is meaningless elsewhere
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_BUNDLE_FORMAT,
+    manifestVersion: PROJECT_BUNDLE_VERSION,
+    createdAt: new Date().toISOString(),
+    image: { path: imagePath, type, ...session.imageDimensions },
+    session: SESSION_PATH,
+    result: result ? RESULT_PATH : null,
+  };
+
+  const files: Record<string, Uint8Array | [Uint8Array, { level: 0 }]> = {
+    [MANIFEST_PATH]: strToU8(JSON.stringify(manifest, null, 2)),
+    [imagePath]: [new Uint8Array(await image.arrayBuffer()), { level: 0 }],
+    [SESSION_PATH]: strToU8(JSON.stringify(portableSession, null, 2)),
+  };
+  if (result) files[RESULT_PATH] = strToU8(JSON.stringify(result, null, 2));
+
+  return new Blob([zipSync(files)], { type: "application/zip" });
+}
+
+function readJson<T>(entries: Record<string, Uint8Array>, path: string): T {
+  const bytes = entries[path];
+  if (!bytes) throw new Error(`The bundle is missing ${path}.`);
+  try {
+    return JSON.parse(strFromU8(bytes)) as T;
+  } catch {
+    throw new Error(`${path} in the bundle is not valid JSON.`);
+  }
+}
+
+/**
+ * Unpacks a project bundle. Throws with a user-facing message if the file is not a
+ * bundle, was written by a newer version, is missing parts or has an invalid session.
+ */
+export async function readProjectBundle(file: Blob): Promise<ProjectBundle> {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new Error("The file is not a valid .zip archive.");
+  }
+
+  const manifest = readJson<ProjectManifest>(entries, MANIFEST_PATH);
+  if (manifest?.format !== PROJECT_BUNDLE_FORMAT) throw new Error("The archive is not a data-ink project bundle.");
+  if (typeof manifest.manifestVersion !== "number" || manifest.manifestVersion > PROJECT_BUNDLE_VERSION) {
+    throw new Error(`The bundle was written by a newer version (manifest ${manifest.manifestVersion}). Please update the app.`);
+  }
+
+  const imageBytes = manifest.image?.path ? entries[manifest.image.path] : undefined;
+  if (!imageBytes) throw new Error("The bundle does not contain its image.");
+  const image = new File([imageBytes], manifest.image.path, { type: manifest.image.type || "image/png" });
+
+  const session = parseSession(readJson<unknown>(entries, manifest.session || SESSION_PATH)); // Migrated and validated
+  const result = manifest.result ? readJson<AnalysisResult>(entries, manifest.result) : null;
+
+  return { manifest, image, session, result };
+}
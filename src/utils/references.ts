@@ -3,8 +3,8 @@
  * Contains ideal, common, and best-practice references for each chart type
  */
 
-import { ReferenceVisualization, ReferenceType } from "@/types/comparison";
-import { AnalysisResult } from "@/types";
+import { ReferenceVisualization, ReferenceType } from "../types/comparison";
+import { AnalysisResult, CanvasMode } from "../types";
 
 /**
  * Creates a reference analysis result with predefined metrics
@@ -38,6 +38,7 @@ function createReferenceAnalysis(
         countFullArea: false,
       },
     ],
+    unclassified: { inkPixels: 0, clusterCount: 0, clusters: [] }, // References classify all their ink
     totalImagePixels: 640 * 480, // Standard reference size
     totalInkPixels: inkPixels,
     totalDataPixels: dataPixels,
@@ -241,20 +242,40 @@ const referenceLibrary: Record<string, ReferenceVisualization[]> = {
   ],
 };
 
+const DARK_ID_SUFFIX = "-dark";
+
+/**
+ * The library is authored for light canvases. Ink is measured against the local
+ * background, so the same design on a dark canvas has the same pixel budget; the
+ * dark variant only relabels the reference and records its canvas.
+ */
+function toCanvasMode(reference: ReferenceVisualization, canvasMode: CanvasMode): ReferenceVisualization {
+  if (canvasMode === "light") return { ...reference, canvasMode };
+  return {
+    ...reference,
+    id: reference.id + DARK_ID_SUFFIX,
+    name: `${reference.name} (Dark Canvas)`,
+    description: `${reference.description}, light ink on a dark canvas`,
+    canvasMode,
+  };
+}
+
 /**
  * Get all references for a specific chart type
  */
-export function getReferencesForChartType(chartType: string): ReferenceVisualization[] {
-  return referenceLibrary[chartType] || [];
+export function getReferencesForChartType(chartType: string, canvasMode: CanvasMode = "light"): ReferenceVisualization[] {
+  return (referenceLibrary[chartType] || []).map((ref) => toCanvasMode(ref, canvasMode));
 }
 
 /**
- * Get a specific reference by ID
+ * Get a specific reference by ID (dark variants carry a "-dark" suffix)
  */
 export function getReferenceById(id: string): ReferenceVisualization | null {
+  const isDark = id.endsWith(DARK_ID_SUFFIX);
+  const baseId = isDark ? id.slice(0, -DARK_ID_SUFFIX.length) : id;
   for (const refs of Object.values(referenceLibrary)) {
-    const found = refs.find((ref) => ref.id === id);
-    if (found) return found;
+    const found = refs.find((ref) => ref.id === baseId);
+    if (found) return toCanvasMode(found, isDark ? "dark" : "light");
   }
   return null;
 }
@@ -264,10 +285,12 @@ export function getReferenceById(id: string): ReferenceVisualization | null {
  */
 export function getReferenceByType(
   chartType: string,
-  type: ReferenceType
+  type: ReferenceType,
+  canvasMode: CanvasMode = "light"
 ): ReferenceVisualization | null {
   const refs = referenceLibrary[chartType] || [];
-  return refs.find((ref) => ref.type === type) || null;
+  const found = refs.find((ref) => ref.type === type);
+  return found ? toCanvasMode(found, canvasMode) : null;
 }
 
 /**
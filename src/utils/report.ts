@@ -0,0 +1,301 @@
+/**
+ * Audit Reports
+ *
+ * Builds a shareable report of one analysis, as a single self-contained HTML file
+ * (styles inline, images as data URLs) or as Markdown with the same sections:
+ *
+ * 1. Summary: efficiency ratio and verdict (getVerdictText), summary stats
+ * 2. Chart: the original image and the annotated overlay (see ./annotatedExport)
+ * 3. Layer Breakdown
+ * 4. Suggestions (generateSuggestions)
+ * 5. Comparison against a reference (compareToReference)
+ * 6. Raw Data: the exportToCSV table, plus the exportToJSON result in HTML
+ *
+ * Both formats are plain strings built from getReportSections, so they work without
+ * the DOM; rendering the images is up to the caller.
+ */
+
+import { AnalysisResult, ChartProfile, Suggestion } from "../types";
+import { ComparisonResult } from "../types/comparison";
+import { exportToCSV, exportToJSON } from "./analysis";
+import { generateSuggestions } from "./assistant";
+import { getVerdictText } from "./benchmarks";
+
+export interface ReportInput {
+  result: AnalysisResult;
+  profile: ChartProfile | null;
+  comparison: ComparisonResult | null;
+  imageUrl: string | null; // Original chart (data URL)
+  annotatedUrl: string | null; // Annotated overlay (data URL)
+  imageSize: { width: number; height: number };
+  generatedAt: Date;
+}
+
+interface ReportStat {
+  label: string;
+  value: string;
+}
+
+interface ReportLayerRow {
+  label: string;
+  color: string;
+  classification: string;
+  inkPixels: string;
+  inkShare: string; // Of all ink in the image
+  totalPixels: string;
+}
+
+/** Report content shared by the HTML and Markdown renderers. */
+export interface ReportSections {
+  title: string;
+  meta: ReportStat[];
+  efficiency: string;
+  verdict: string | null;
+  stats: ReportStat[];
+  layers: ReportLayerRow[];
+  suggestions: Suggestion[];
+  comparison: {
+    reference: string;
+    grade: string;
+    summary: string;
+    metrics: ReportStat[];
+    insights: string[];
+    recommendations: string[];
+  } | null;
+  csv: string;
+  json: string;
+}
+
+const formatPercent = (ratio: number, digits = 2): string => `${(ratio * 100).toFixed(digits)}%`;
+const formatPixels = (pixels: number): string => pixels.toLocaleString("en-US");
+
+const suggestionLabels: Record<Suggestion["type"], string> = {
+  critical: "Critical",
+  warning: "Warning",
+  tip: "Tip",
+};
+
+/**
+ * Collects the report content for `input` (numbers formatted, verdict and suggestions resolved).
+ */
+export function getReportSections({ result, profile, comparison, imageSize, generatedAt }: ReportInput): ReportSections {
+  const verdict = profile
+    ? getVerdictText(result.efficiencyRatio, profile.benchmarks.efficiency, "efficiency", profile.name).text
+    : null;
+  const inkShare = (pixels: number) => (result.totalInkPixels > 0 ? formatPercent(pixels / result.totalInkPixels, 1) : "–");
+
+  const layers: ReportLayerRow[] = result.layers.map(layer => ({
+    label: layer.label,
+    color: layer.color,
+    classification: layer.isData ? "Data" : "Non-Data",
+    inkPixels: formatPixels(layer.inkPixels),
+    inkShare: inkShare(layer.inkPixels),
+    totalPixels: formatPixels(layer.totalPixels),
+  }));
+  if (result.unclassified.inkPixels > 0) {
+    layers.push({
+      label: "Unclassified Ink",
+      color: "#ef4444",
+      classification: `${formatPixels(result.unclassified.clusterCount)} clusters`,
+      inkPixels: formatPixels(result.unclassified.inkPixels),
+      inkShare: inkShare(result.unclassified.inkPixels),
+      totalPixels: "–",
+    });
+  }
+
+  const stats: ReportStat[] = [
+    { label: "Total Image Pixels", value: formatPixels(result.totalImagePixels) },
+    { label: "Total Ink Pixels", value: formatPixels(result.totalInkPixels) },
+    { label: "Data Pixels", value: formatPixels(result.totalDataPixels) },
+    { label: "Non-Data Pixels", value: formatPixels(result.totalNonDataPixels) },
+    { label: "Unclassified Ink Pixels", value: formatPixels(result.unclassified.inkPixels) },
+    { label: "Density Ratio (Data/Image)", value: formatPercent(result.densityRatio) },
+    ...(result.coverage ? [{ label: "Coverage Efficiency (Fractional)", value: formatPercent(result.coverage.efficiencyRatio) }] : []),
+  ];
+
+  return {
+    title: "Data-Ink Audit Report",
+    meta: [
+      { label: "Generated", value: generatedAt.toLocaleString() },
+      { label: "Chart Type", value: profile?.name ?? "None selected" },
+      { label: "Image Size", value: `${imageSize.width} × ${imageSize.height} px` },
+    ],
+    efficiency: formatPercent(result.efficiencyRatio),
+    verdict,
+    stats,
+    layers,
+    suggestions: generateSuggestions(result, profile),
+    comparison: comparison && {
+      reference: `${comparison.reference.name} (${comparison.reference.type.replace("-", " ")})`,
+      grade: comparison.interpretation.grade.charAt(0).toUpperCase() + comparison.interpretation.grade.slice(1),
+      summary: comparison.interpretation.summary,
+      metrics: [
+        { label: "Your Efficiency", value: formatPercent(comparison.metrics.userEfficiency, 1) },
+        { label: "Reference Efficiency", value: formatPercent(comparison.metrics.referenceEfficiency, 1) },
+        {
+          label: "Difference",
+          value: isFinite(comparison.metrics.relativeDifference)
+            ? `${comparison.metrics.relativeDifference >= 0 ? "+" : ""}${comparison.metrics.relativeDifference.toFixed(1)}%`
+            : "∞",
+        },
+        { label: "Absolute Gap", value: formatPercent(comparison.metrics.efficiencyGap, 1) },
+      ],
+      insights: comparison.interpretation.insights,
+      recommendations: comparison.interpretation.recommendations,
+    },
+    csv: exportToCSV(result),
+    json: exportToJSON(result),
+  };
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #0f172a; max-width: 960px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.2rem; margin-top: 2rem; border-bottom: 1px solid #e2e8f0; padding-bottom: 0.25rem; }
+  .meta { color: #64748b; font-size: 0.9rem; }
+  .ratio { font-size: 2.5rem; font-weight: 700; color: #2563eb; margin: 0.5rem 0 0; }
+  .verdict { font-weight: 600; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.4rem 0.6rem; border-bottom: 1px solid #e2e8f0; }
+  td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  .swatch { display: inline-block; width: 0.75rem; height: 0.75rem; border-radius: 2px; margin-right: 0.4rem; vertical-align: -1px; }
+  figure { margin: 1rem 0; }
+  figure img { max-width: 100%; border: 1px solid #e2e8f0; }
+  figcaption { color: #64748b; font-size: 0.85rem; }
+  .critical { color: #dc2626; } .warning { color: #ca8a04; } .tip { color: #2563eb; }
+  pre { background: #f8fafc; border: 1px solid #e2e8f0; padding: 0.75rem; overflow-x: auto; font-size: 0.8rem; }
+`;
+
+const htmlStatTable = (stats: ReportStat[]): string =>
+  `<table>${stats.map(stat => `<tr><th>${escapeHtml(stat.label)}</th><td class="num">${escapeHtml(stat.value)}</td></tr>`).join("")}</table>`;
+
+/**
+ * Renders the report as a single self-contained HTML document.
+ */
+export function generateHtmlReport(input: ReportInput): string {
+  const report = getReportSections(input);
+  const parts: string[] = [];
+
+  parts.push(`<h1>${escapeHtml(report.title)}</h1>`);
+  parts.push(`<p class="meta">${report.meta.map(item => `${escapeHtml(item.label)}: ${escapeHtml(item.value)}`).join(" · ")}</p>`);
+
+  parts.push(`<h2>Summary</h2>`);
+  parts.push(`<p class="meta">Data-Ink Efficiency Ratio</p><p class="ratio">${report.efficiency}</p>`);
+  if (report.verdict) parts.push(`<p class="verdict">${escapeHtml(report.verdict)}</p>`);
+  parts.push(htmlStatTable(report.stats));
+
+  if (input.imageUrl || input.annotatedUrl) {
+    parts.push(`<h2>Chart</h2>`);
+    if (input.imageUrl) parts.push(`<figure><img src="${input.imageUrl}" alt="Analysed chart"><figcaption>Original chart</figcaption></figure>`);
+    if (input.annotatedUrl) parts.push(`<figure><img src="${input.annotatedUrl}" alt="Annotated chart"><figcaption>Layers and legend</figcaption></figure>`);
+  }
+
+  parts.push(`<h2>Layer Breakdown</h2>`);
+  parts.push(
+    `<table><thead><tr><th>Layer</th><th>Classification</th><th class="num">Ink Pixels</th><th class="num">Share of Ink</th><th class="num">Total Pixels</th></tr></thead><tbody>` +
+    report.layers.map(layer =>
+      `<tr><td><span class="swatch" style="background:${escapeHtml(layer.color)}"></span>${escapeHtml(layer.label)}</td><td>${escapeHtml(layer.classification)}</td>` +
+      `<td class="num">${layer.inkPixels}</td><td class="num">${layer.inkShare}</td><td class="num">${layer.totalPixels}</td></tr>`
+    ).join("") +
+    `</tbody></table>`
+  );
+
+  parts.push(`<h2>Suggestions</h2>`);
+  parts.push(report.suggestions.length > 0
+    ? `<ul>${report.suggestions.map(s => `<li><strong class="${s.type}">${suggestionLabels[s.type]}:</strong> ${escapeHtml(s.message)}</li>`).join("")}</ul>`
+    : `<p class="meta">${input.profile ? "No suggestions: the chart meets its profile's benchmarks." : "Select a chart type to get suggestions."}</p>`);
+
+  parts.push(`<h2>Comparison</h2>`);
+  if (report.comparison) {
+    const { comparison } = report;
+    parts.push(`<p><strong>${escapeHtml(comparison.grade)} match</strong> vs ${escapeHtml(comparison.reference)}</p><p>${escapeHtml(comparison.summary)}</p>`);
+    parts.push(htmlStatTable(comparison.metrics));
+    if (comparison.insights.length > 0) parts.push(`<h3>Key Insights</h3><ul>${comparison.insights.map(text => `<li>${escapeHtml(text)}</li>`).join("")}</ul>`);
+    if (comparison.recommendations.length > 0) parts.push(`<h3>Recommendations</h3><ul>${comparison.recommendations.map(text => `<li>${escapeHtml(text)}</li>`).join("")}</ul>`);
+  } else {
+    parts.push(`<p class="meta">No reference is available for this chart type.</p>`);
+  }
+
+  parts.push(`<h2>Raw Data</h2>`);
+  parts.push(`<p><a download="analysis-results.csv" href="data:text/csv;charset=utf-8,${encodeURIComponent(report.csv)}">Download CSV</a></p>`);
+  parts.push(`<pre>${escapeHtml(report.csv)}</pre>`);
+  parts.push(`<details><summary>Full result (JSON)</summary><pre>${escapeHtml(report.json)}</pre></details>`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+${parts.join("\n")}
+</body>
+</html>
+`;
+}
+
+// Table cells may not contain pipes or line breaks; "<" would start inline HTML
+const escapeMarkdownCell = (text: string): string => text.replace(/\|/g, "\\|").replace(/</g, "&lt;").replace(/\n/g, " ");
+
+const markdownTable = (headers: string[], rows: string[][], numericFrom = 1): string =>
+  [
+    `| ${headers.map(escapeMarkdownCell).join(" | ")} |`,
+    `| ${headers.map((_, i) => (i >= numericFrom ? "---:" : "---")).join(" | ")} |`,
+    ...rows.map(row => `| ${row.map(escapeMarkdownCell).join(" | ")} |`),
+  ].join("\n");
+
+/**
+ * Renders the report as Markdown with the same sections as the HTML report.
+ * Images are embedded as data URLs.
+ */
+export function generateMarkdownReport(input: ReportInput): string {
+  const report = getReportSections(input);
+  const lines: string[] = [];
+
+  lines.push(`# ${report.title}`, "");
+  lines.push(report.meta.map(item => `**${item.label}:** ${item.value}`).join(" · "), "");
+
+  lines.push("## Summary", "");
+  lines.push(`**Data-Ink Efficiency Ratio: ${report.efficiency}**${report.verdict ? ` — ${report.verdict}` : ""}`, "");
+  lines.push(markdownTable(["Statistic", "Value"], report.stats.map(stat => [stat.label, stat.value])), "");
+
+  if (input.imageUrl || input.annotatedUrl) {
+    lines.push("## Chart", "");
+    if (input.imageUrl) lines.push(`![Original chart](${input.imageUrl})`, "");
+    if (input.annotatedUrl) lines.push(`![Layers and legend](${input.annotatedUrl})`, "");
+  }
+
+  lines.push("## Layer Breakdown", "");
+  lines.push(markdownTable(
+    ["Layer", "Classification", "Ink Pixels", "Share of Ink", "Total Pixels"],
+    report.layers.map(layer => [layer.label, layer.classification, layer.inkPixels, layer.inkShare, layer.totalPixels]),
+    2
+  ), "");
+
+  lines.push("## Suggestions", "");
+  if (report.suggestions.length > 0) {
+    report.suggestions.forEach(s => lines.push(`- **${suggestionLabels[s.type]}:** ${s.message}`));
+  } else {
+    lines.push(input.profile ? "No suggestions: the chart meets its profile's benchmarks." : "Select a chart type to get suggestions.");
+  }
+  lines.push("");
+
+  lines.push("## Comparison", "");
+  if (report.comparison) {
+    const { comparison } = report;
+    lines.push(`**${comparison.grade} match** vs ${comparison.reference}`, "", comparison.summary, "");
+    lines.push(markdownTable(["Metric", "Value"], comparison.metrics.map(stat => [stat.label, stat.value])), "");
+    if (comparison.insights.length > 0) lines.push("### Key Insights", "", ...comparison.insights.map(text => `- ${text}`), "");
+    if (comparison.recommendations.length > 0) lines.push("### Recommendations", "", ...comparison.recommendations.map(text => `- ${text}`), "");
+  } else {
+    lines.push("No reference is available for this chart type.", "");
+  }
+
+  lines.push("## Raw Data", "", "```csv", report.csv, "```", "");
+  return lines.join("\n");
+}
@@ -0,0 +1,166 @@
+/**
+ * Session File Format
+ *
+ * Schema, validation and version migrations for exported sessions (the JSON written
+ * by "Export" and session.json inside project bundles).
+ *
+ * Imports run in two steps:
+ * 1. Migrate: the file is upgraded one version at a time along `migrations` until it
+ *    reaches SESSION_VERSION. Each step only fills in what its version introduced.
+ * 2. Validate: the result is checked against `sessionSchema`; every problem is reported
+ *    with its field path (e.g. "selections[2].x: Expected number, received string").
+ *
+ * Changing the format: bump SESSION_VERSION, extend the schema and add a migration from
+ * the previous version.
+ */
+
+import { z } from "zod";
+import { SessionData } from "../types/app";
+
+export const SESSION_VERSION = "1.7";
+
+// Files written before versioning are treated as the first exported version
+const LEGACY_VERSION = "1.1";
+
+type RawSession = Record<string, unknown>;
+
+interface Migration {
+  to: string;
+  migrate: (session: RawSession) => RawSession;
+}
+
+const mapSelections = (session: RawSession, map: (selection: RawSession) => RawSession): RawSession =>
+  Array.isArray(session.selections)
+    ? { ...session, selections: session.selections.map(sel => (sel && typeof sel === "object" ? map(sel as RawSession) : sel)) }
+    : session;
+
+// Keyed by the version each step upgrades from
+const migrations: Record<string, Migration> = {
+  // 1.2: polygon selections; existing selections are rectangles
+  "1.1": { to: "1.2", migrate: (session) => mapSelections(session, sel => ({ shape: "rect", ...sel })) },
+  // 1.3: mask selections (additive)
+  "1.2": { to: "1.3", migrate: (session) => session },
+  // 1.4: background models (colour metrics arrived late in 1.3, so early 1.3 files lack them)
+  "1.3": { to: "1.4", migrate: (session) => ({ colorMetric: "rgb", backgroundMode: "uniform", ...session }) },
+  // 1.5: canvas mode (fractional coverage arrived late in 1.4)
+  "1.4": { to: "1.5", migrate: (session) => ({ fractionalCoverage: false, canvasMode: "light", ...session }) },
+  // 1.6: SVG element selections (svgElements) and paint-order analysis
+  "1.5": { to: "1.6", migrate: (session) => ({ svgPaintOrder: true, ...session }) },
+  // 1.7: image source (PDF page and render DPI), optional
+  "1.6": { to: "1.7", migrate: (session) => session },
+};
+
+const byteSchema = z.number().int().min(0).max(255);
+const rgbSchema = z.object({ r: byteSchema, g: byteSchema, b: byteSchema });
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+const maskSchema = z.object({
+  width: z.number().int().nonnegative(),
+  height: z.number().int().nonnegative(),
+  runs: z.array(z.number().int().nonnegative()),
+}).refine(mask => mask.runs.reduce((sum, run) => sum + run, 0) === mask.width * mask.height, {
+  message: "Run lengths must add up to width x height",
+  path: ["runs"],
+});
+
+const selectionSchema = z.object({
+  id: z.string().min(1),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+  label: z.string(),
+  color: z.string().min(1),
+  isData: z.boolean(),
+  countFullArea: z.boolean(),
+  shape: z.enum(["rect", "polygon", "mask"]).optional(),
+  points: z.array(pointSchema).optional(),
+  mask: maskSchema.optional(),
+  backgroundColor: rgbSchema.optional(),
+  svgElements: z.array(z.number().int().nonnegative()).optional(),
+}).superRefine((sel, ctx) => {
+  if (sel.shape === "polygon" && (sel.points?.length ?? 0) < 3) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Polygon selections need at least 3 points", path: ["points"] });
+  }
+  if (sel.shape === "mask" && !sel.mask) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Mask selections need a mask", path: ["mask"] });
+  }
+});
+
+export const sessionSchema = z.object({
+  version: z.literal(SESSION_VERSION),
+  imageUrl: z.string().nullable().optional(),
+  imageDimensions: z.object({ width: z.number().nonnegative(), height: z.number().nonnegative() }),
+  selections: z.array(selectionSchema),
+  backgroundColor: rgbSchema,
+  inkThreshold: z.number().min(0),
+  magicWandTolerance: z.number().min(0),
+  colorMetric: z.enum(["rgb", "cie76", "ciede2000"]),
+  backgroundMode: z.enum(["uniform", "gradient", "estimated"]),
+  fractionalCoverage: z.boolean(),
+  canvasMode: z.enum(["light", "dark"]),
+  svgPaintOrder: z.boolean(),
+  imageSource: z.object({
+    kind: z.literal("pdf"),
+    fileName: z.string(),
+    page: z.number().int().positive(),
+    dpi: z.number().positive(),
+  }).nullable().optional(),
+  selectedProfileId: z.string().optional(),
+});
+
+/** A session that failed validation; `issues` lists every problem as "path: message". */
+export class SessionValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    const shown = issues.slice(0, 3).join("; ");
+    super(`Invalid session file: ${shown}${issues.length > 3 ? ` (and ${issues.length - 3} more)` : ""}`);
+    this.name = "SessionValidationError";
+    this.issues = issues;
+  }
+}
+
+// "selections[2].color" from ["selections", 2, "color"]
+const formatPath = (path: (string | number)[]): string =>
+  path.reduce<string>((text, key) => (typeof key === "number" ? `${text}[${key}]` : text ? `${text}.${key}` : key), "") || "(file)";
+
+const parseVersion = (version: string): number[] => version.split(".").map(Number);
+
+const isNewerVersion = (version: string): boolean => {
+  const [major, minor] = parseVersion(version);
+  const [currentMajor, currentMinor] = parseVersion(SESSION_VERSION);
+  return major > currentMajor || (major === currentMajor && minor > currentMinor);
+};
+
+/**
+ * Upgrades a parsed session file to SESSION_VERSION. Throws for files from a newer
+ * app version or with an unknown version.
+ */
+export function migrateSession(raw: unknown): RawSession {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new SessionValidationError(["(file): Expected a JSON object"]);
+  let session = raw as RawSession;
+  let version = typeof session.version === "string" ? session.version : LEGACY_VERSION;
+
+  if (version !== SESSION_VERSION && isNewerVersion(version)) {
+    throw new Error(`The session was written by a newer version (${version}). Please update the app.`);
+  }
+  while (version !== SESSION_VERSION) {
+    const migration = migrations[version];
+    if (!migration) throw new SessionValidationError([`version: Unknown session version "${version}"`]);
+    session = { ...migration.migrate(session), version: migration.to };
+    version = migration.to;
+  }
+  return session;
+}
+
+/**
+ * Migrates and validates a parsed session file.
+ */
+export function parseSession(raw: unknown): SessionData {
+  const parsed = sessionSchema.safeParse(migrateSession(raw));
+  if (!parsed.success) {
+    throw new SessionValidationError(parsed.error.issues.map(issue => `${formatPath(issue.path)}: ${issue.message}`));
+  }
+  return parsed.data as SessionData; // zod infers every field as optional without strictNullChecks
+}
@@ -0,0 +1,359 @@
+/**
+ * SVG Chart Import
+ *
+ * SVG charts (D3, matplotlib, ...) are rasterised for the regular pixel analysis and,
+ * because every bar, tick and gridline is its own element, can also be classified
+ * without drawing boxes:
+ *
+ * 1. prepareSvgFile gives the SVG explicit pixel dimensions (from width/height or the
+ *    viewBox) so the browser rasterises it at a known size; that file is loaded like
+ *    any other upload.
+ * 2. classifySvgElements lays the SVG out off-screen at the same size, measures each
+ *    drawn element and maps it to a component of the selected chart profile with the
+ *    first matching rule. Elements sharing a component and a group name (class, id or
+ *    group id without its numeric suffix) become one selection: a rectangle for a
+ *    single element, otherwise a mask of the elements' padded boxes.
+ *
+ * Selections follow document order, so later (painted on top) groups are the upper layers.
+ * Each selection also lists its elements (`svgElements`, indices into collectDrawnElements)
+ * for the exact paint-order analysis in ./svgPaintOrder.
+ *
+ * The rules default to defaultSvgClassificationRules and can be edited in the settings
+ * (checked with parseSvgClassificationRules before they are used).
+ *
+ * Measuring needs the SVG in the live page, so it is sanitised first (sanitizeSvgForLayout):
+ * scripts, event handlers, foreign HTML and external references are removed. Rasterising
+ * goes through <img>, where none of them run.
+ */
+
+import { z } from "zod";
+import { ChartProfile, ComponentDefinition, SelectionBox } from "../types";
+import { encodeMask } from "./mask";
+
+export const SVG_MIME_TYPE = "image/svg+xml";
+const MAX_SVG_RASTER_SIZE = 4096; // Longest side; larger drawings are scaled down
+
+/**
+ * Where a rule looks:
+ * - class: class names of the element and its ancestor groups (each name tested alone)
+ * - id:    the element's own id
+ * - gid:   ids of the enclosing groups, innermost first (matplotlib writes `gid` as the group id)
+ * - tag:   the element's tag name
+ */
+export type SvgRuleSource = "class" | "id" | "gid" | "tag";
+
+export interface SvgClassificationRule {
+  source: SvgRuleSource;
+  pattern: string; // Regular expression, case-insensitive
+  components: string[]; // Candidate component names; the first one the profile defines is used
+}
+
+/**
+ * Default rules for D3 and matplotlib conventions, most specific first: legends,
+ * titles and gridlines contain shapes that would otherwise look like data.
+ */
+export const defaultSvgClassificationRules: SvgClassificationRule[] = [
+  { source: "class", pattern: "legend", components: ["Legend"] },
+  { source: "gid", pattern: "^legend", components: ["Legend"] },
+  { source: "class", pattern: "colou?r-?(bar|scale)", components: ["Color Scale", "Legend"] },
+  { source: "class", pattern: "title", components: ["Title"] },
+  { source: "gid", pattern: "title", components: ["Title"] },
+  { source: "class", pattern: "grid", components: ["Gridlines", "Borders", "Decoration"] },
+  { source: "gid", pattern: "grid", components: ["Gridlines", "Borders", "Decoration"] },
+  { source: "class", pattern: "^(x-?axis|axis-?-?x)$", components: ["X-Axis", "X-Axis Labels", "Axis"] },
+  { source: "gid", pattern: "^(matplotlib\\.axis_1|xtick_\\d+|x-?axis)$", components: ["X-Axis", "X-Axis Labels", "Axis"] },
+  { source: "class", pattern: "^(y-?axis|axis-?-?y)$", components: ["Y-Axis", "Y-Axis Labels", "Axis"] },
+  { source: "gid", pattern: "^(matplotlib\\.axis_2|ytick_\\d+|y-?axis)$", components: ["Y-Axis", "Y-Axis Labels", "Axis"] },
+  { source: "class", pattern: "^(axis|axes|tick|ticks|domain|spine)$", components: ["Axis", "X-Axis", "X-Axis Labels"] },
+  { source: "class", pattern: "^(background|bg|plot-?area|frame)$", components: ["Background"] },
+  { source: "gid", pattern: "^patch_[12]$", components: ["Background"] }, // matplotlib figure and axes patches
+  { source: "class", pattern: "^(labels?|annotations?)$", components: ["Labels", "Label", "Cell Text"] },
+  { source: "class", pattern: "^(header|headers|th)$", components: ["Headers"] },
+  { source: "class", pattern: "^bars?$", components: ["Bars", "Data Element"] },
+  { source: "class", pattern: "^(lines?|series|trend)$", components: ["Lines", "Data Element"] },
+  { source: "gid", pattern: "^line2d_\\d+$", components: ["Lines", "Data Element"] },
+  { source: "class", pattern: "^(dots?|points?|markers?|scatter)$", components: ["Data Points", "Data Element"] },
+  { source: "gid", pattern: "^pathcollection_\\d+$", components: ["Data Points", "Data Element"] },
+  { source: "class", pattern: "^(arcs?|slices?|wedges?|pie)$", components: ["Slices", "Data Element"] },
+  { source: "class", pattern: "^(cells?|heat)$", components: ["Cells", "Cell Text", "Data Element"] },
+  { source: "gid", pattern: "^(quadmesh_\\d+|image\\d+)$", components: ["Cells", "Data Element"] },
+  { source: "gid", pattern: "^patch_\\d+$", components: ["Bars", "Slices", "Cells", "Data Element"] }, // Remaining matplotlib patches
+  { source: "tag", pattern: "^text$", components: ["Labels", "Label", "Cell Text"] },
+  { source: "tag", pattern: "^(circle|ellipse)$", components: ["Data Points", "Data Element"] },
+];
+
+const ruleSchema = z.object({
+  source: z.enum(["class", "id", "gid", "tag"]),
+  pattern: z.string().min(1).refine(pattern => {
+    try {
+      new RegExp(pattern, "i");
+      return true;
+    } catch {
+      return false;
+    }
+  }, { message: "Invalid regular expression" }),
+  components: z.array(z.string().min(1)).min(1),
+});
+
+/**
+ * Checks edited rules (parsed JSON) and returns them. Throws with every problem as
+ * "[index].field: message".
+ */
+export function parseSvgClassificationRules(raw: unknown): SvgClassificationRule[] {
+  const parsed = z.array(ruleSchema).safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.map(key => (typeof key === "number" ? `[${key}]` : `.${key}`)).join("") || "(rules)"}: ${issue.message}`);
+    throw new Error(`Invalid rules: ${issues.slice(0, 3).join("; ")}${issues.length > 3 ? ` (and ${issues.length - 3} more)` : ""}`);
+  }
+  return parsed.data as SvgClassificationRule[]; // zod infers every field as optional without strictNullChecks
+}
+
+export interface PreparedSvg {
+  file: File; // The SVG with explicit pixel width/height, ready for the raster pipeline
+  svgText: string;
+  width: number;
+  height: number;
+}
+
+export interface SvgClassification {
+  selections: SelectionBox[];
+  matchedElements: number;
+  unmatchedElements: number; // Drawn elements no rule mapped to the profile (left as unclassified ink)
+}
+
+// Elements that draw something; groups are walked, these are measured
+const DRAWN_TAGS = new Set(["rect", "circle", "ellipse", "line", "polyline", "polygon", "path", "text", "image", "use"]);
+// Containers whose children are never drawn in place
+const NON_RENDERED_TAGS = new Set(["defs", "clippath", "mask", "marker", "pattern", "symbol", "lineargradient", "radialgradient", "filter", "title", "desc", "metadata", "style", "script", "foreignobject"]);
+// Removed before the SVG enters the page: script, embedded HTML and animations (which can set href or handlers)
+const UNSAFE_TAGS = new Set(["script", "foreignobject", "set", "animate", "animatemotion", "animatetransform", "discard"]);
+
+const CSS_PIXELS_PER_UNIT: Record<string, number> = { "": 1, px: 1, pt: 4 / 3, pc: 16, in: 96, cm: 96 / 2.54, mm: 96 / 25.4 };
+
+/**
+ * The elements that draw something, in document (paint) order. Indices into this list
+ * identify elements across separate parses of the same SVG text.
+ */
+export function collectDrawnElements(root: Element): Element[] {
+  const drawn: Element[] = [];
+  const visit = (element: Element) => {
+    const tag = element.localName.toLowerCase();
+    if (NON_RENDERED_TAGS.has(tag)) return;
+    if (DRAWN_TAGS.has(tag)) drawn.push(element);
+    else Array.from(element.children).forEach(visit);
+  };
+  Array.from(root.children).forEach(visit);
+  return drawn;
+}
+
+export function isSvgFile(file: File): boolean {
+  return file.type === SVG_MIME_TYPE || /\.svg$/i.test(file.name);
+}
+
+// Absolute SVG length in CSS pixels, or null for percentages, em and missing values
+function parseLength(value: string | null): number | null {
+  const match = value?.trim().match(/^([\d.]+(?:e[-+]?\d+)?)\s*(px|pt|pc|in|cm|mm)?$/i);
+  if (!match) return null;
+  const number = parseFloat(match[1]) * CSS_PIXELS_PER_UNIT[(match[2] ?? "").toLowerCase()];
+  return number > 0 ? number : null;
+}
+
+// Only same-document fragments and inline images may be referenced
+const isSafeReference = (value: string): boolean => /^\s*(#|data:image\/)/i.test(value);
+
+// CSS with external url(...) targets and @import rules removed
+const sanitizeCss = (css: string): string =>
+  css
+    .replace(/@import[^;]*;?/gi, "")
+    .replace(/url\(\s*(['"]?)(.*?)\1\s*\)/gi, (match, _quote, target: string) => (isSafeReference(target) ? match : "none"));
+
+/**
+ * Strips everything that could run script or load external resources once the SVG is
+ * inserted into the page: UNSAFE_TAGS, `on*` handlers, non-local `href`s and external
+ * CSS urls. Drawn elements stay where they are, so document order is unchanged.
+ */
+function sanitizeSvgForLayout(root: Element) {
+  Array.from(root.querySelectorAll("*"))
+    .filter(element => UNSAFE_TAGS.has(element.localName.toLowerCase()))
+    .forEach(element => element.remove());
+  [root, ...Array.from(root.querySelectorAll("*"))].forEach(element => {
+    Array.from(element.attributes).forEach(attribute => {
+      const name = attribute.localName.toLowerCase();
+      if (name.startsWith("on") || (name === "href" && !isSafeReference(attribute.value))) {
+        element.removeAttributeNode(attribute);
+      } else if (name === "style" || /url\(/i.test(attribute.value)) {
+        attribute.value = sanitizeCss(attribute.value); // Presentation attributes such as fill="url(...)" too
+      }
+    });
+    if (element.localName.toLowerCase() === "style") element.textContent = sanitizeCss(element.textContent ?? "");
+  });
+}
+
+export function parseSvgDocument(svgText: string): SVGSVGElement {
+  const doc = new DOMParser().parseFromString(svgText, SVG_MIME_TYPE);
+  const root = doc.documentElement;
+  if (doc.querySelector("parsererror") || root.localName !== "svg") throw new Error("The file is not a valid SVG document.");
+  return root as unknown as SVGSVGElement;
+}
+
+/**
+ * Reads an SVG upload and pins its size in pixels, taken from width/height or the
+ * viewBox (capped at MAX_SVG_RASTER_SIZE), so it rasterises predictably.
+ */
+export async function prepareSvgFile(file: File): Promise<PreparedSvg> {
+  const root = parseSvgDocument(await file.text());
+  const viewBox = root.getAttribute("viewBox")?.trim().split(/[\s,]+/).map(Number);
+  const viewWidth = viewBox?.length === 4 && viewBox[2] > 0 ? viewBox[2] : null;
+  const viewHeight = viewBox?.length === 4 && viewBox[3] > 0 ? viewBox[3] : null;
+
+  let width = parseLength(root.getAttribute("width"));
+  let height = parseLength(root.getAttribute("height"));
+  if (!width && !height) {
+    width = viewWidth;
+    height = viewHeight;
+  } else if (!width) {
+    width = viewWidth && viewHeight ? (height! * viewWidth) / viewHeight : null;
+  } else if (!height) {
+    height = viewWidth && viewHeight ? (width * viewHeight) / viewWidth : null;
+  }
+  if (!width || !height) throw new Error("The SVG has no usable size (set width/height or a viewBox).");
+
+  const scale = Math.min(1, MAX_SVG_RASTER_SIZE / Math.max(width, height));
+  width = Math.max(1, Math.round(width * scale));
+  height = Math.max(1, Math.round(height * scale));
+  if (!viewBox && scale < 1) root.setAttribute("viewBox", `0 0 ${width / scale} ${height / scale}`); // Keep the drawing whole when shrinking
+  root.setAttribute("width", String(width));
+  root.setAttribute("height", String(height));
+
+  const svgText = new XMLSerializer().serializeToString(root);
+  const name = file.name || "chart.svg";
+  return { file: new File([svgText], name, { type: SVG_MIME_TYPE }), svgText, width, height };
+}
+
+interface CompiledRule {
+  source: SvgRuleSource;
+  regex: RegExp;
+  components: string[];
+}
+
+// Values a rule source sees for an element, in the order they are tested
+function getSourceValues(element: Element, root: Element, source: SvgRuleSource): string[] {
+  if (source === "tag") return [element.localName];
+  if (source === "id") return element.id ? [element.id] : [];
+  const values: string[] = [];
+  for (let node: Element | null = source === "gid" ? element.parentElement : element; node && node !== root; node = node.parentElement) {
+    if (source === "gid" && node.localName === "g" && node.id) values.push(node.id);
+    if (source === "class") values.push(...(node.getAttribute("class") ?? "").split(/\s+/).filter(Boolean));
+  }
+  return values;
+}
+
+/**
+ * Lays the prepared SVG out off-screen at `width` x `height` and builds selections for
+ * the elements the rules map onto `profile`'s components.
+ */
+export function classifySvgElements(
+  svgText: string,
+  width: number,
+  height: number,
+  profile: ChartProfile,
+  rules: SvgClassificationRule[] = defaultSvgClassificationRules
+): SvgClassification {
+  const compiled: CompiledRule[] = rules.map(rule => ({ source: rule.source, regex: new RegExp(rule.pattern, "i"), components: rule.components }));
+  const findComponent = (names: string[]): ComponentDefinition | undefined =>
+    names.map(name => profile.components.find(c => c.name === name)).find(Boolean);
+
+  // A shadow root keeps the SVG's <style> rules and ids from leaking into the page
+  const host = document.createElement("div");
+  host.style.cssText = "position:fixed;left:-100000px;top:0;visibility:hidden;pointer-events:none;";
+  const root = parseSvgDocument(svgText);
+  sanitizeSvgForLayout(root);
+  root.setAttribute("width", String(width));
+  root.setAttribute("height", String(height));
+  host.attachShadow({ mode: "open" }).appendChild(document.importNode(root, true));
+  document.body.appendChild(host);
+
+  const groups = new Map<string, { component: ComponentDefinition; name: string; elements: number[]; boxes: { x1: number; y1: number; x2: number; y2: number }[] }>();
+  let matchedElements = 0;
+  let unmatchedElements = 0;
+
+  try {
+    const svg = host.shadowRoot!.firstElementChild as SVGSVGElement;
+    const origin = svg.getBoundingClientRect();
+
+    collectDrawnElements(svg).forEach((element, elementIndex) => {
+      const tag = element.localName.toLowerCase();
+      const style = getComputedStyle(element); // Also "none" when an ancestor is not displayed
+      if (style.display === "none" || style.visibility === "hidden" || (style.fill === "none" && style.stroke === "none" && tag !== "image" && tag !== "use")) return;
+
+      const rect = element.getBoundingClientRect();
+      if (rect.width === 0 && rect.height === 0) return;
+      // Boxes cover the geometry only; pad by half the scaled stroke plus a pixel of anti-aliasing
+      const ctm = (element as SVGGraphicsElement).getScreenCTM?.();
+      const scale = ctm ? Math.hypot(ctm.a, ctm.b) : 1;
+      const pad = (style.stroke !== "none" ? (parseFloat(style.strokeWidth) || 1) * scale / 2 : 0) + 1;
+      const box = {
+        x1: Math.max(0, Math.floor(rect.left - origin.left - pad)),
+        y1: Math.max(0, Math.floor(rect.top - origin.top - pad)),
+        x2: Math.min(width, Math.ceil(rect.right - origin.left + pad)),
+        y2: Math.min(height, Math.ceil(rect.bottom - origin.top + pad)),
+      };
+      if (box.x2 <= box.x1 || box.y2 <= box.y1) return;
+
+      for (const rule of compiled) {
+        const value = getSourceValues(element, svg, rule.source).find(v => rule.regex.test(v));
+        const component = value !== undefined ? findComponent(rule.components) : undefined;
+        if (!component) continue;
+        const name = value!.replace(/[-_]?\d+$/, "") || value!; // "xtick_3" and "xtick_4" share a group
+        const key = `${component.name}\u0000${name}`;
+        if (!groups.has(key)) groups.set(key, { component, name, elements: [], boxes: [] });
+        groups.get(key)!.elements.push(elementIndex);
+        groups.get(key)!.boxes.push(box);
+        matchedElements++;
+        return;
+      }
+      unmatchedElements++;
+    });
+  } finally {
+    host.remove();
+  }
+
+  const groupsPerComponent = new Map<string, number>();
+  groups.forEach(group => groupsPerComponent.set(group.component.name, (groupsPerComponent.get(group.component.name) ?? 0) + 1));
+
+  const selections = Array.from(groups.values()).map((group, index): SelectionBox => {
+    // A loop, not Math.min(...boxes): dense scatters have more elements than a call takes arguments
+    let x1 = Infinity, y1 = Infinity, x2 = -Infinity, y2 = -Infinity;
+    for (const box of group.boxes) {
+      x1 = Math.min(x1, box.x1);
+      y1 = Math.min(y1, box.y1);
+      x2 = Math.max(x2, box.x2);
+      y2 = Math.max(y2, box.y2);
+    }
+    const { component } = group;
+    const selection: SelectionBox = {
+      id: `sel-${Date.now()}-${index}-${Math.random().toString(36).substring(2, 7)}`,
+      x: x1,
+      y: y1,
+      width: x2 - x1,
+      height: y2 - y1,
+      label: groupsPerComponent.get(component.name)! > 1 ? `${component.name} (${group.name})` : component.name,
+      color: component.color,
+      isData: component.isData,
+      countFullArea: false,
+      svgElements: group.elements,
+    };
+    if (group.boxes.length === 1) return selection;
+
+    // Several elements: keep only their boxes, not the gaps between them
+    const maskWidth = x2 - x1;
+    const bits = new Uint8Array(maskWidth * (y2 - y1));
+    group.boxes.forEach(box => {
+      for (let y = box.y1; y < box.y2; y++) bits.fill(1, (y - y1) * maskWidth + box.x1 - x1, (y - y1) * maskWidth + box.x2 - x1);
+    });
+    if (bits.every(Boolean)) return selection;
+    return { ...selection, shape: "mask", mask: encodeMask(bits, maskWidth, y2 - y1) };
+  });
+
+  return { selections, matchedElements, unmatchedElements };
+}
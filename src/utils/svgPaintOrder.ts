@@ -0,0 +1,131 @@
+/**
+ * SVG Paint-Order Ownership
+ *
+ * Box layers decide overlaps by the order of the selections; an SVG knows what was
+ * actually painted on top. For SVG input, this builds the ownership map from the
+ * drawing itself:
+ *
+ * - The drawn elements (see collectDrawnElements) are split into runs of consecutive
+ *   elements with the same owner: the selection listing them in `svgElements`, or no
+ *   selection (elements left unclassified).
+ * - Each run is rasterised in isolation (every other element hidden, so styles, groups
+ *   and transforms stay intact) and, from the last painted run down, claims the pixels
+ *   it covers that no later run covers. A pixel a run covers at least half-opaquely
+ *   beats fainter anti-aliased edges of later runs.
+ *
+ * The map uses analyzeImage's encoding (selection index + 1, 0 = unclaimed). Pixels
+ * topmost-covered by unclassified elements stay 0, so they count as unclassified ink
+ * unless a hand-drawn selection claims them. Rendering needs the DOM, so this runs on
+ * the main thread and the analysis itself in the worker.
+ */
+
+import { SelectionBox } from "../types";
+import { SVG_MIME_TYPE, collectDrawnElements, parseSvgDocument } from "./svgImport";
+
+// Runs to rasterise at most; every run is one full-size render
+export const MAX_PAINT_RUNS = 400;
+
+const SOLID_ALPHA = 128; // Covers the pixel at least half-opaquely
+const UNCLASSIFIED_OWNER = -1; // Run of elements no selection lists
+const HIDDEN_STYLE = ";visibility:hidden !important";
+
+interface PaintRun {
+  owner: number; // Selection index + 1, or UNCLASSIFIED_OWNER
+  elements: Element[];
+}
+
+/**
+ * Whether a selection list can be analysed by paint order (some layer stands for SVG elements).
+ */
+export function hasSvgElementSelections(selections: SelectionBox[]): boolean {
+  return selections.some(sel => (sel.svgElements?.length ?? 0) > 0);
+}
+
+async function rasterizeSvg(svgText: string, context: CanvasRenderingContext2D): Promise<Uint8ClampedArray> {
+  const { width, height } = context.canvas;
+  const url = URL.createObjectURL(new Blob([svgText], { type: SVG_MIME_TYPE }));
+  try {
+    const img = new Image(width, height);
+    img.src = url;
+    await img.decode();
+    context.clearRect(0, 0, width, height);
+    context.drawImage(img, 0, 0, width, height);
+    return context.getImageData(0, 0, width, height).data;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Builds the paint-order ownership map of a prepared SVG (see ./svgImport) at
+ * `width` x `height`. Rejects with an AbortError when `signal` aborts.
+ */
+export async function buildSvgPaintOwnership(
+  svgText: string,
+  width: number,
+  height: number,
+  selections: SelectionBox[],
+  options: { signal?: AbortSignal; onProgress?: (fraction: number) => void } = {}
+): Promise<Int32Array> {
+  const root = parseSvgDocument(svgText);
+  root.setAttribute("width", String(width));
+  root.setAttribute("height", String(height));
+  const drawn = collectDrawnElements(root);
+
+  // Owner per element; an element listed by several selections belongs to the topmost
+  const ownerOf = new Int32Array(drawn.length).fill(UNCLASSIFIED_OWNER);
+  selections.forEach((sel, index) => sel.svgElements?.forEach(element => {
+    if (element >= 0 && element < drawn.length) ownerOf[element] = index + 1;
+  }));
+
+  const runs: PaintRun[] = [];
+  drawn.forEach((element, i) => {
+    const last = runs[runs.length - 1];
+    if (last?.owner === ownerOf[i]) last.elements.push(element);
+    else runs.push({ owner: ownerOf[i], elements: [element] });
+  });
+  if (runs.length > MAX_PAINT_RUNS) {
+    throw new Error(`The SVG alternates between layers ${runs.length} times (limit ${MAX_PAINT_RUNS}). Merge selections or use box analysis.`);
+  }
+
+  // Hide everything, then reveal one run at a time
+  const originalStyles = drawn.map(element => element.getAttribute("style") ?? "");
+  const setHidden = (element: Element, index: number, hidden: boolean) =>
+    element.setAttribute("style", originalStyles[index] + (hidden ? HIDDEN_STYLE : ""));
+  drawn.forEach((element, i) => setHidden(element, i, true));
+  const indexOf = new Map(drawn.map((element, i) => [element, i]));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("Could not create a canvas to render the SVG.");
+
+  const pixelCount = width * height;
+  const solidOwner = new Int32Array(pixelCount); // Topmost run covering the pixel solidly
+  const faintOwner = new Int32Array(pixelCount); // Topmost run covering it at all
+  const serializer = new XMLSerializer();
+
+  for (let r = runs.length - 1; r >= 0; r--) {
+    if (options.signal?.aborted) throw new DOMException("SVG rendering was cancelled.", "AbortError");
+    const run = runs[r];
+    run.elements.forEach(element => setHidden(element, indexOf.get(element)!, false));
+    const pixels = await rasterizeSvg(serializer.serializeToString(root), context);
+    run.elements.forEach(element => setHidden(element, indexOf.get(element)!, true));
+
+    for (let i = 0; i < pixelCount; i++) {
+      const alpha = pixels[i * 4 + 3];
+      if (alpha === 0) continue;
+      if (faintOwner[i] === 0) faintOwner[i] = run.owner;
+      if (alpha >= SOLID_ALPHA && solidOwner[i] === 0) solidOwner[i] = run.owner;
+    }
+    options.onProgress?.((runs.length - r) / runs.length);
+  }
+
+  const ownership = new Int32Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const owner = solidOwner[i] || faintOwner[i];
+    ownership[i] = owner > 0 ? owner : 0;
+  }
+  return ownership;
+}
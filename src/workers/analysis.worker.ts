@@ -0,0 +1,50 @@
+/**
+ * Analysis Web Worker
+ * Runs the layered analysis, magic-wand flood fill and ink integral image
+ * construction off the main thread.
+ * Pixel buffers arrive as transferred ArrayBuffers; results are posted back
+ * with row-level progress events while the analysis runs.
+ */
+
+import { analyzeImage, floodFill } from "@/analysis";
+import { computeInkMap } from "@/utils/analysis";
+import { buildInkIntegral } from "@/utils/integralImage";
+import { createBackgroundField } from "@/utils/background";
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from "@/utils/analysisWorker";
+
+const post = (message: AnalysisWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (e: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = e.data;
+  try {
+    const imageData = new ImageData(new Uint8ClampedArray(request.buffer), request.width, request.height);
+
+    if (request.type === "analyze") {
+      const result = analyzeImage(imageData, request.selections, {
+        backgroundColor: request.backgroundColor,
+        inkThreshold: request.inkThreshold,
+        colorMetric: request.colorMetric,
+        backgroundMode: request.backgroundMode,
+        fractionalCoverage: request.fractionalCoverage,
+        canvasMode: request.canvasMode,
+        paintOwnership: request.paintOwnership,
+        onProgress: (progress) => post({ type: "progress", progress }),
+      });
+      post({ type: "analysis", result });
+    } else if (request.type === "floodFill") {
+      const region = floodFill(imageData, request.startX, request.startY, {
+        tolerance: request.tolerance,
+        colorMetric: request.colorMetric,
+        backdrop: request.backdrop,
+      });
+      post({ type: "floodFill", region });
+    } else {
+      const backgroundField = createBackgroundField(imageData, request.backgroundColor, request.backgroundMode, request.selections);
+      const { inkMap, totalInkPixels } = computeInkMap(imageData, request.backgroundColor, request.inkThreshold, request.colorMetric, undefined, backgroundField, request.canvasMode);
+      const integral = buildInkIntegral(inkMap, request.width, request.height, totalInkPixels);
+      post({ type: "inkIntegral", integral }, [integral.inkMap.buffer, integral.sums.buffer]);
+    }
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : "Unknown worker error." });
+  }
+};
@@ -0,0 +1,18 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Library build of the framework-free analysis API (src/analysis), see library/package.json.
+// Type declarations are emitted next to it by tsconfig.lib.json.
+export default defineConfig({
+  build: {
+    outDir: "library/dist",
+    emptyOutDir: true,
+    copyPublicDir: false,
+    sourcemap: true,
+    lib: {
+      entry: path.resolve(__dirname, "src/analysis/index.ts"),
+      formats: ["es"],
+      fileName: "index",
+    },
+  },
+});